@@ -3,8 +3,18 @@
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { config } from "dotenv";
 import { resolve } from "path";
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
 import { getServerConfig } from "./config.js";
 import { FigmaMcpServer } from "./server.js";
+import { FigmaService } from "./services/figma.js";
+import {
+  DesignTokenFormat,
+  fetchDesignTokens,
+  renderDesignTokens,
+} from "./services/design-tokens.js";
+import { writeFiles } from "./utils/common.js";
+import { resolveFigmaTarget } from "./utils/figma-url.js";
 
 // Load .env from the current working directory
 config({ path: resolve(process.cwd(), ".env") });
@@ -15,7 +25,27 @@ export async function startServer(): Promise<void> {
 
   const config = getServerConfig(isStdioMode);
 
-  const server = new FigmaMcpServer(config.figmaApiKey);
+  const server = new FigmaMcpServer(config.figmaApiKey, {
+    vision: config.vision,
+    visionCache: config.visionCache,
+    figmaCache: config.figmaCache,
+    allowCommentWrites: config.allowCommentWrites,
+    contextServerKeyFallback: config.contextServerKeyFallback,
+    sessionIdleTimeoutSeconds: config.sessionIdleTimeoutSeconds,
+  });
+
+  if (config.clearVisionCache && server.visionCache) {
+    const removed = server.visionCache.invalidate();
+    if (!isStdioMode) console.log(`Cleared ${removed} cached image descriptions`);
+  }
+
+  if (server.figmaCache) {
+    for (const file of config.clearFigmaCache) {
+      const { fileKey } = resolveFigmaTarget({ fileKey: file });
+      server.figmaCache.invalidateFile(fileKey);
+      if (!isStdioMode) console.log(`Cleared cached Figma responses for ${fileKey}`);
+    }
+  }
 
   if (isStdioMode) {
     const transport = new StdioServerTransport();
@@ -27,10 +57,59 @@ export async function startServer(): Promise<void> {
   }
 }
 
+/**
+ * `figma-developer-mcp export-tokens --file-key <key>` writes the file's design tokens to disk
+ */
+export async function exportTokens(): Promise<void> {
+  const argv = yargs(hideBin(process.argv))
+    .options({
+      "file-key": {
+        type: "string",
+        demandOption: true,
+        description: "The key of the Figma file, or a link to it",
+      },
+      "node-id": { type: "string", description: "Only export tokens used inside this node" },
+      out: { type: "string", default: ".", description: "Directory to write the token files to" },
+      format: {
+        type: "string",
+        choices: ["dtcg", "css", "tailwind", "all"],
+        default: "all",
+        description: "Which token format to write",
+      },
+      "include-unnamed": {
+        type: "boolean",
+        default: false,
+        description: "Also export values that are not bound to a shared Figma style",
+      },
+    })
+    .parseSync();
+
+  const config = getServerConfig(true);
+  const figmaService = new FigmaService(config.figmaApiKey);
+  const { fileKey, nodeIds } = resolveFigmaTarget({
+    fileKey: argv["file-key"],
+    nodeId: argv["node-id"],
+  });
+  const tokens = await fetchDesignTokens(figmaService, fileKey, nodeIds.join(",") || undefined, {
+    includeUnnamed: argv["include-unnamed"],
+  });
+  const formats = (
+    argv.format === "all" ? ["dtcg", "css", "tailwind"] : [argv.format]
+  ) as DesignTokenFormat[];
+  const written = writeFiles(resolve(argv.out), renderDesignTokens(tokens, formats));
+
+  console.log(`Exported ${tokens.length} design tokens:`);
+  written.forEach((filePath) => console.log(`  ${filePath}`));
+}
+
 // If we're being executed directly (not imported), start the server
 if (process.argv[1]) {
-  startServer().catch((error) => {
-    console.error("Failed to start server:", error);
+  const command = process.argv[2] === "export-tokens" ? exportTokens : startServer;
+  command().catch((error) => {
+    console.error(
+      command === exportTokens ? "Failed to export tokens:" : "Failed to start server:",
+      error,
+    );
     process.exit(1);
   });
 }
@@ -1,6 +1,10 @@
 import { config } from "dotenv";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
+import { validateVisionConfig } from "./services/vision.js";
+import type { VisionConfig, VisionProviderName } from "./services/vision.js";
+import type { VisionCacheConfig } from "./services/vision-cache.js";
+import type { FigmaCacheConfig } from "./services/figma-cache.js";
 
 // Load environment variables from .env file
 config();
@@ -8,12 +12,38 @@ config();
 interface ServerConfig {
   figmaApiKey: string;
   port: number;
+  vision: VisionConfig;
+  visionCache: VisionCacheConfig;
+  /**
+   * Drop every cached image description on startup
+   */
+  clearVisionCache: boolean;
+  figmaCache: FigmaCacheConfig;
+  /**
+   * Files, by key or link, whose cached Figma responses are dropped on startup
+   */
+  clearFigmaCache: string[];
+  /**
+   * Let agents post comments on Figma files
+   */
+  allowCommentWrites: boolean;
+  /**
+   * Let /context use the server's API key for requests that send no token
+   */
+  contextServerKeyFallback: boolean;
+  /**
+   * Seconds before an unused Streamable HTTP session is closed
+   */
+  sessionIdleTimeoutSeconds?: number;
   configSources: {
     figmaApiKey: "cli" | "env";
     port: "cli" | "env" | "default";
+    vision: "cli" | "env" | "default";
   };
 }
 
+const VISION_PROVIDERS: VisionProviderName[] = ["openai", "openai-compatible", "none"];
+
 function maskApiKey(key: string): string {
   if (key.length <= 4) return "****";
   return `****${key.slice(-4)}`;
@@ -22,6 +52,27 @@ function maskApiKey(key: string): string {
 interface CliArgs {
   "figma-api-key"?: string;
   port?: number;
+  "vision-provider"?: VisionProviderName;
+  "vision-api-key"?: string;
+  "vision-base-url"?: string;
+  "vision-model"?: string;
+  "vision-max-tokens"?: number;
+  "vision-prompt"?: string;
+  "vision-cache"?: boolean;
+  "vision-cache-dir"?: string;
+  "vision-cache-ttl"?: number;
+  "vision-cache-max-entries"?: number;
+  "clear-vision-cache"?: boolean;
+  "figma-cache"?: boolean;
+  "figma-cache-dir"?: string;
+  "figma-cache-max-entries"?: number;
+  "figma-cache-max-memory"?: number;
+  "figma-cache-max-disk"?: number;
+  "figma-cache-fresh-for"?: number;
+  "clear-figma-cache"?: string[];
+  "allow-comment-writes"?: boolean;
+  "context-server-key-fallback"?: boolean;
+  "session-idle-timeout"?: number;
 }
 
 export function getServerConfig(isStdioMode: boolean): ServerConfig {
@@ -30,12 +81,99 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
     .options({
       "figma-api-key": {
         type: "string",
-        description: "Figma API key",
+        description: "Figma API key. Optional over HTTP if every client sends its own token",
       },
       port: {
         type: "number",
         description: "Port to run the server on",
       },
+      "vision-provider": {
+        type: "string",
+        choices: VISION_PROVIDERS,
+        description: "Vision model used to describe image nodes in /context",
+      },
+      "vision-api-key": {
+        type: "string",
+        description: "API key for the vision provider",
+      },
+      "vision-base-url": {
+        type: "string",
+        description: "Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1",
+      },
+      "vision-model": {
+        type: "string",
+        description: "Vision model name",
+      },
+      "vision-max-tokens": {
+        type: "number",
+        description: "Maximum tokens per image description",
+      },
+      "vision-prompt": {
+        type: "string",
+        description: "Replaces the default image classification prompt",
+      },
+      "vision-cache": {
+        type: "boolean",
+        description: "Cache image descriptions on disk (use --no-vision-cache to disable)",
+      },
+      "vision-cache-dir": {
+        type: "string",
+        description: "Directory for the image description cache",
+      },
+      "vision-cache-ttl": {
+        type: "number",
+        description: "Seconds before a cached image description expires",
+      },
+      "vision-cache-max-entries": {
+        type: "number",
+        description: "Maximum number of cached image descriptions",
+      },
+      "clear-vision-cache": {
+        type: "boolean",
+        description: "Clear the image description cache on startup",
+      },
+      "figma-cache": {
+        type: "boolean",
+        description: "Cache Figma file responses by file version (use --no-figma-cache to disable)",
+      },
+      "figma-cache-dir": {
+        type: "string",
+        description: "Also persist cached Figma responses in this directory",
+      },
+      "figma-cache-max-entries": {
+        type: "number",
+        description: "Maximum number of Figma responses kept in memory",
+      },
+      "figma-cache-max-memory": {
+        type: "number",
+        description: "Megabytes of Figma responses kept in memory",
+      },
+      "figma-cache-max-disk": {
+        type: "number",
+        description: "Megabytes of Figma responses kept in the cache directory",
+      },
+      "figma-cache-fresh-for": {
+        type: "number",
+        description: "Seconds a cached Figma response is used before checking the file version",
+      },
+      "clear-figma-cache": {
+        type: "string",
+        array: true,
+        description: "Clear the cached responses of these files, by key or link, on startup",
+      },
+      "allow-comment-writes": {
+        type: "boolean",
+        description:
+          "Enable the post_figma_comment tool. The Figma token needs file_comments:write",
+      },
+      "session-idle-timeout": {
+        type: "number",
+        description: "Seconds before an unused /mcp session is closed. Defaults to 1800",
+      },
+      "context-server-key-fallback": {
+        type: "boolean",
+        description: "Let /context requests without an access token use the server's Figma API key",
+      },
     })
     .help()
     .version("0.1.18")
@@ -44,9 +182,17 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
   const config: ServerConfig = {
     figmaApiKey: "",
     port: 3333,
+    vision: { provider: "none" },
+    visionCache: { enabled: true },
+    clearVisionCache: false,
+    figmaCache: { enabled: true },
+    clearFigmaCache: [],
+    allowCommentWrites: false,
+    contextServerKeyFallback: false,
     configSources: {
       figmaApiKey: "env",
       port: "default",
+      vision: "default",
     },
   };
 
@@ -68,19 +214,119 @@ export function getServerConfig(isStdioMode: boolean): ServerConfig {
     config.configSources.port = "env";
   }
 
+  // Handle vision provider. Without an explicit provider, fall back to OpenAI if a key is set
+  const visionApiKey =
+    argv["vision-api-key"] ?? process.env.VISION_API_KEY ?? process.env.OPEN_API_KEY;
+  const visionProvider = argv["vision-provider"] ?? process.env.VISION_PROVIDER;
+  if (argv["vision-provider"]) {
+    config.configSources.vision = "cli";
+  } else if (process.env.VISION_PROVIDER) {
+    config.configSources.vision = "env";
+  }
+  config.vision = {
+    provider: (visionProvider as VisionProviderName) ?? (visionApiKey ? "openai" : "none"),
+    apiKey: visionApiKey,
+    baseUrl: argv["vision-base-url"] ?? process.env.VISION_BASE_URL,
+    model: argv["vision-model"] ?? process.env.VISION_MODEL,
+    maxTokens:
+      argv["vision-max-tokens"] ??
+      (process.env.VISION_MAX_TOKENS ? Number(process.env.VISION_MAX_TOKENS) : undefined),
+    prompt: argv["vision-prompt"] ?? process.env.VISION_PROMPT,
+  };
+
+  // Handle vision cache
+  config.visionCache = {
+    enabled: argv["vision-cache"] ?? process.env.VISION_CACHE !== "false",
+    dir: argv["vision-cache-dir"] ?? process.env.VISION_CACHE_DIR,
+    ttlSeconds:
+      argv["vision-cache-ttl"] ??
+      (process.env.VISION_CACHE_TTL ? parseInt(process.env.VISION_CACHE_TTL, 10) : undefined),
+    maxEntries:
+      argv["vision-cache-max-entries"] ??
+      (process.env.VISION_CACHE_MAX_ENTRIES
+        ? parseInt(process.env.VISION_CACHE_MAX_ENTRIES, 10)
+        : undefined),
+  };
+  config.clearVisionCache = argv["clear-vision-cache"] ?? false;
+
+  // Handle Figma response cache
+  config.figmaCache = {
+    enabled: argv["figma-cache"] ?? process.env.FIGMA_CACHE !== "false",
+    dir: argv["figma-cache-dir"] ?? process.env.FIGMA_CACHE_DIR,
+    maxEntries:
+      argv["figma-cache-max-entries"] ??
+      (process.env.FIGMA_CACHE_MAX_ENTRIES
+        ? parseInt(process.env.FIGMA_CACHE_MAX_ENTRIES, 10)
+        : undefined),
+    maxMemoryMB:
+      argv["figma-cache-max-memory"] ??
+      (process.env.FIGMA_CACHE_MAX_MEMORY_MB
+        ? Number(process.env.FIGMA_CACHE_MAX_MEMORY_MB)
+        : undefined),
+    maxDiskMB:
+      argv["figma-cache-max-disk"] ??
+      (process.env.FIGMA_CACHE_MAX_DISK_MB
+        ? Number(process.env.FIGMA_CACHE_MAX_DISK_MB)
+        : undefined),
+    freshForSeconds:
+      argv["figma-cache-fresh-for"] ??
+      (process.env.FIGMA_CACHE_FRESH_FOR
+        ? parseInt(process.env.FIGMA_CACHE_FRESH_FOR, 10)
+        : undefined),
+  };
+  config.clearFigmaCache = argv["clear-figma-cache"] ?? [];
+
+  // Handle comment writes, which stay off unless explicitly enabled
+  config.allowCommentWrites =
+    argv["allow-comment-writes"] ?? process.env.FIGMA_ALLOW_COMMENT_WRITES === "true";
+  config.contextServerKeyFallback =
+    argv["context-server-key-fallback"] ?? process.env.CONTEXT_SERVER_KEY_FALLBACK === "true";
+
+  // Handle session cleanup
+  config.sessionIdleTimeoutSeconds =
+    argv["session-idle-timeout"] ??
+    (process.env.SESSION_IDLE_TIMEOUT ? Number(process.env.SESSION_IDLE_TIMEOUT) : undefined);
+
   // Validate configuration
-  if (!config.figmaApiKey) {
+  // Over HTTP each client can send its own token, so the server's key is only a fallback
+  if (!config.figmaApiKey && isStdioMode) {
     console.error("FIGMA_API_KEY is required (via CLI argument --figma-api-key or .env file)");
     process.exit(1);
   }
 
+  if (!VISION_PROVIDERS.includes(config.vision.provider)) {
+    console.error(
+      `VISION_PROVIDER must be one of ${VISION_PROVIDERS.join(", ")} (got "${config.vision.provider}")`,
+    );
+    process.exit(1);
+  }
+
+  const idleTimeout = config.sessionIdleTimeoutSeconds;
+  if (idleTimeout !== undefined && !(idleTimeout > 0)) {
+    console.error(`SESSION_IDLE_TIMEOUT must be a positive number of seconds (got ${idleTimeout})`);
+    process.exit(1);
+  }
+
+  const visionProblem = validateVisionConfig(config.vision);
+  if (visionProblem) {
+    console.error(visionProblem);
+    process.exit(1);
+  }
+
   // Log configuration sources
   if (!isStdioMode) {
     console.log("\nConfiguration:");
     console.log(
-      `- FIGMA_API_KEY: ${maskApiKey(config.figmaApiKey)} (source: ${config.configSources.figmaApiKey})`,
+      config.figmaApiKey
+        ? `- FIGMA_API_KEY: ${maskApiKey(config.figmaApiKey)} (source: ${config.configSources.figmaApiKey})`
+        : "- FIGMA_API_KEY: not set, clients must send their own Figma token",
     );
     console.log(`- PORT: ${config.port} (source: ${config.configSources.port})`);
+    console.log(
+      `- VISION_PROVIDER: ${config.vision.provider}${config.vision.model ? ` (${config.vision.model})` : ""} (source: ${config.configSources.vision})`,
+    );
+    console.log(`- FIGMA_ALLOW_COMMENT_WRITES: ${config.allowCommentWrites}`);
+    console.log(`- CONTEXT_SERVER_KEY_FALLBACK: ${config.contextServerKeyFallback}`);
     console.log(); // Empty line for better readability
   }
 
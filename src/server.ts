@@ -1,31 +1,158 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { FigmaService } from "./services/figma.js";
+import { createImageDownloader, FigmaApiError, FigmaAuth, FigmaService } from "./services/figma.js";
 import express, { Request, Response } from "express";
 import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "node:crypto";
 import { IncomingMessage, ServerResponse, Server } from "http";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { SimplifiedDesign } from "./services/simplify-node-response.js";
 import * as yaml from "js-yaml";
-import * as https from "https";
-import { findImageNodeIds } from "./utils/common.js";
-import { fetchImageUrls } from "./services/figma.js";
-import { analyzeImageWithOpenAIVision } from "./services/openai.js";
+import { formatDesign, OUTPUT_FORMATS } from "./services/output-format.js";
+import { SIMPLIFIED_DESIGN_SCHEMA } from "./services/design-schema.js";
+import { applyTokenBudget } from "./services/token-budget.js";
+import { searchNodes, validateNodeSearchQuery } from "./services/node-search.js";
+import { diffDesigns } from "./services/design-diff.js";
+import { buildCommentRequest, getCommentThreads } from "./services/comments.js";
+import { FigmaUrlError, parseFigmaUrl, resolveFigmaTarget } from "./utils/figma-url.js";
+import { resolveWorkspacePath, writeFiles } from "./utils/common.js";
+import { FigmaContextService } from "./services/figma-context.js";
+import { createVisionProvider, VisionConfig, VisionProvider } from "./services/vision.js";
+import { CachedVisionProvider, VisionCache, VisionCacheConfig } from "./services/vision-cache.js";
+import { InMemoryEventStore } from "./utils/event-store.js";
+import { getRequestAuth, isSameAuth } from "./utils/request-auth.js";
+import { FigmaCacheConfig, FigmaResponseCache } from "./services/figma-cache.js";
+import {
+  DesignTokenFormat,
+  fetchDesignTokens,
+  renderDesignTokens,
+} from "./services/design-tokens.js";
+import { generateReactComponent } from "./services/react-codegen.js";
 
 export const Logger = {
-  log: (...args: any[]) => { },
-  error: (...args: any[]) => { },
+  log: (...args: any[]) => {},
+  error: (...args: any[]) => {},
 };
 
+const MISSING_CREDENTIALS =
+  "Figma credentials required. Send a personal access token as X-Figma-Token or an OAuth token as Authorization: Bearer";
+const SESSION_CREDENTIALS_MISMATCH =
+  "Credentials don't match the ones this session was started with";
+
+const figmaUrlParam = z
+  .string()
+  .optional()
+  .describe(
+    "A Figma link, e.g. https://www.figma.com/design/<fileKey>/...?node-id=1-2. Takes the place of fileKey and nodeId",
+  );
+
+const versionParam = z
+  .string()
+  .optional()
+  .describe(
+    "ID of a version from the file's history to read, as listed by get_figma_versions. Defaults to the current state",
+  );
+
+const branchParam = z
+  .string()
+  .optional()
+  .describe("Key or name of one of the file's branches to read instead of the main file");
+
+const noCacheParam = z
+  .boolean()
+  .optional()
+  .describe("Fetch a fresh copy from Figma instead of using the cached response");
+
+export interface FigmaMcpServerOptions {
+  /**
+   * Vision model used to describe image nodes in /context. Defaults to no analysis
+   */
+  vision?: VisionConfig;
+  /**
+   * Disk cache for image descriptions. Enabled with default settings unless disabled here
+   */
+  visionCache?: VisionCacheConfig;
+  /**
+   * Cache for raw Figma file and node responses. In-memory by default, on disk if a dir is set
+   */
+  figmaCache?: FigmaCacheConfig;
+  /**
+   * Register post_figma_comment so agents can write to files. Off by default
+   */
+  allowCommentWrites?: boolean;
+  /**
+   * Let /context requests without a token of their own use the server's API key. Off by default,
+   * since anyone who can reach the port could then read files with it
+   */
+  contextServerKeyFallback?: boolean;
+  /**
+   * Streamable HTTP sessions without requests for this long are closed, for clients that went
+   * away without ending their session. Defaults to 30 minutes
+   */
+  sessionIdleTimeoutSeconds?: number;
+}
+
+const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60;
+
 export class FigmaMcpServer {
   public readonly server: McpServer;
+  /**
+   * Uses the server's own API key, for stdio and for HTTP clients that send no credentials
+   */
   private readonly figmaService: FigmaService;
+  public readonly figmaCache: FigmaResponseCache | null;
+  private readonly visionProvider: VisionProvider;
+  public readonly visionCache: VisionCache | null = null;
+  private readonly contextService: FigmaContextService;
+  private readonly allowCommentWrites: boolean;
+  private readonly hasDefaultKey: boolean;
+  private readonly contextServerKeyFallback: boolean;
   private transports: { [sessionId: string]: SSEServerTransport } = {};
+  private streamableTransports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+  /**
+   * Credentials each HTTP session was started with, unset for sessions using the server's key
+   */
+  private sessionAuth: { [sessionId: string]: FigmaAuth | undefined } = {};
+  /**
+   * Open requests and the pending idle timeout of each Streamable HTTP session
+   */
+  private sessionActivity = new Map<
+    StreamableHTTPServerTransport,
+    { openRequests: number; idleTimer?: NodeJS.Timeout }
+  >();
+  private readonly sessionIdleTimeoutMs: number;
   private httpServer: Server | null = null;
 
-  constructor(figmaApiKey: string) {
-    this.figmaService = new FigmaService(figmaApiKey);
-    this.server = new McpServer(
+  /**
+   * @param figmaApiKey - Personal access token used when a client sends none. May be empty over
+   * HTTP, in which case every client has to send its own
+   */
+  constructor(figmaApiKey: string, options: FigmaMcpServerOptions = {}) {
+    this.figmaCache =
+      options.figmaCache?.enabled === false ? null : new FigmaResponseCache(options.figmaCache);
+    this.figmaService = new FigmaService(figmaApiKey, { cache: this.figmaCache });
+    this.visionProvider = createVisionProvider(options.vision ?? { provider: "none" });
+    if (this.visionProvider.name !== "none" && options.visionCache?.enabled !== false) {
+      this.visionCache = new VisionCache(options.visionCache);
+      this.visionProvider = new CachedVisionProvider(this.visionProvider, this.visionCache);
+    }
+    this.contextService = new FigmaContextService(this.figmaService, this.visionProvider);
+    this.allowCommentWrites = options.allowCommentWrites ?? false;
+    this.hasDefaultKey = !!figmaApiKey;
+    this.contextServerKeyFallback = options.contextServerKeyFallback ?? false;
+    this.sessionIdleTimeoutMs =
+      (options.sessionIdleTimeoutSeconds ?? DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS) * 1000;
+    this.server = this.createServer();
+  }
+
+  /**
+   * An McpServer can only be connected to one transport, so each HTTP session gets its own
+   * @param auth - The session's own credentials. Defaults to the server's API key
+   */
+  private createServer(auth?: FigmaAuth): McpServer {
+    const server = new McpServer(
       {
         name: "Figma MCP Server",
         version: "0.1.18",
@@ -34,34 +161,131 @@ export class FigmaMcpServer {
         capabilities: {
           logging: {},
           tools: {},
+          resources: {},
         },
       },
     );
 
-    this.registerTools();
+    this.registerTools(server, auth ? this.createFigmaService(auth) : this.figmaService);
+    this.registerResources(server);
+    return server;
+  }
+
+  private registerResources(server: McpServer): void {
+    server.resource(
+      "simplified-design-schema",
+      SIMPLIFIED_DESIGN_SCHEMA.$id,
+      {
+        description: "JSON Schema of get_figma_data's json output",
+        mimeType: "application/schema+json",
+      },
+      async (uri) => ({
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: "application/schema+json",
+            text: JSON.stringify(SIMPLIFIED_DESIGN_SCHEMA, null, 2),
+          },
+        ],
+      }),
+    );
+  }
+
+  /**
+   * A service for one client's credentials. It shares the response cache, which keeps each
+   * token's entries apart
+   */
+  private createFigmaService(auth: FigmaAuth): FigmaService {
+    return new FigmaService(auth, { cache: this.figmaCache });
   }
 
-  private registerTools(): void {
-    this.server.tool(
+  private getContextService(figmaService: FigmaService): FigmaContextService {
+    return figmaService === this.figmaService
+      ? this.contextService
+      : new FigmaContextService(figmaService, this.visionProvider);
+  }
+
+  private registerTools(server: McpServer, figmaService: FigmaService): void {
+    server.tool(
       "get_figma_data",
       "Fetch layout info from a Figma file",
       {
-        fileKey: z.string(),
-        nodeId: z.string().optional(),
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("One or more comma-separated node IDs, formatted as 1234:5678"),
         depth: z.number().optional(),
+        version: versionParam,
+        branch: branchParam,
+        noCache: noCacheParam,
+        collapseInstances: z
+          .boolean()
+          .optional()
+          .describe(
+            "Leave out the children of component instances that don't override their main component. Fetch the componentId node to see them, or for library components (remote in components) fetch the instance again without collapseInstances",
+          ),
+        rawPaints: z
+          .boolean()
+          .optional()
+          .describe("Include Figma's raw gradient handles and stops next to the CSS gradients"),
+        format: z
+          .enum(OUTPUT_FORMATS)
+          .default("yaml")
+          .describe(
+            `yaml and json return everything, json following the schema at ${SIMPLIFIED_DESIGN_SCHEMA.$id}. outline is one line per node with its key styles, markdown a summary for humans`,
+          ),
+        maxTokens: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe(
+            "Approximate token budget for the response, at about four characters per token of the requested format. Nodes are expanded breadth first, and nodes whose children don't fit are returned with a truncated summary instead. Fetch a truncated node's ID to explore it. Top-level nodes are always returned, with metadata.tokenBudgetExceeded set if they alone go over the budget",
+          ),
       },
-      async ({ fileKey, nodeId, depth }: { fileKey: string, nodeId?: string, depth?: number }) => {
+      async ({
+        url,
+        fileKey: fileKeyParam,
+        nodeId: nodeIdParam,
+        depth,
+        version,
+        branch,
+        noCache,
+        collapseInstances,
+        rawPaints,
+        format,
+        maxTokens,
+      }) => {
         try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId: nodeIdParam,
+            branch,
+          });
+          const nodeId = nodeIds.join(",");
           let file: SimplifiedDesign;
           if (nodeId) {
-            file = await this.figmaService.getNode(fileKey, nodeId, depth);
+            file = await figmaService.getNode(fileKey, nodeId, depth, {
+              noCache,
+              version,
+              branch,
+              collapseInstances,
+              rawPaints,
+            });
           } else {
-            file = await this.figmaService.getFile(fileKey, depth);
+            file = await figmaService.getFile(fileKey, depth, {
+              noCache,
+              version,
+              branch,
+              collapseInstances,
+              rawPaints,
+            });
           }
-          const { nodes, globalVars, ...metadata } = file;
-          const result = { metadata, nodes, globalVars };
-          const yamlResult = yaml.dump(result);
-          return { content: [{ type: "text", text: yamlResult }] };
+          if (maxTokens) file = applyTokenBudget(file, maxTokens, format);
+          return { content: [{ type: "text", text: formatDesign(file, format) }] };
         } catch (error) {
           return {
             isError: true,
@@ -70,6 +294,621 @@ export class FigmaMcpServer {
         }
       },
     );
+
+    server.tool(
+      "search_figma_nodes",
+      "Find nodes in a Figma file by name, type, text, component or shared style. Returns node IDs with their page and frame path, ready to pass to get_figma_data",
+      {
+        url: figmaUrlParam,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file to search. Ignored if url is set"),
+        name: z
+          .string()
+          .optional()
+          .describe("Regular expression matched against node names, case-insensitive"),
+        types: z
+          .string()
+          .array()
+          .optional()
+          .describe("Node types to include, e.g. FRAME, TEXT, INSTANCE or COMPONENT"),
+        text: z.string().optional().describe("Text to look for in text nodes, case-insensitive"),
+        component: z
+          .string()
+          .optional()
+          .describe("Only instances of components or component sets whose name contains this"),
+        style: z
+          .string()
+          .optional()
+          .describe("Only nodes using a shared style whose name contains this"),
+        limit: z.number().int().positive().default(50).describe("Maximum number of matches"),
+        version: versionParam,
+        branch: branchParam,
+        noCache: noCacheParam,
+      },
+      async ({ url, fileKey: fileKeyParam, version, branch, noCache, ...query }) => {
+        try {
+          const { fileKey } = resolveFigmaTarget({ url, fileKey: fileKeyParam, branch });
+          validateNodeSearchQuery(query);
+          const file = await figmaService.getRawFile(fileKey, undefined, {
+            noCache,
+            version,
+            branch,
+          });
+          return { content: [{ type: "text", text: yaml.dump(searchNodes(file, query)) }] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error searching nodes: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "get_figma_versions",
+      "List the saved versions of a Figma file, newest first. Pass a version ID to get_figma_data to see the design as it was then",
+      {
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        branch: branchParam,
+        pageSize: z.number().int().positive().optional().describe("Number of versions to list"),
+        before: z
+          .string()
+          .optional()
+          .describe("Only list versions older than this version ID, to page through history"),
+      },
+      async ({ url, fileKey: fileKeyParam, branch, pageSize, before }) => {
+        try {
+          const { fileKey } = resolveFigmaTarget({ url, fileKey: fileKeyParam, branch });
+          const { versions, pagination } = await figmaService.getVersions(
+            await figmaService.resolveBranchKey(fileKey, branch),
+            { pageSize, before },
+          );
+          const last = versions[versions.length - 1];
+          const result = {
+            versions: versions.map(({ id, created_at, label, description, user }) => ({
+              id,
+              createdAt: created_at,
+              label: label || undefined,
+              description: description || undefined,
+              user: user.handle,
+            })),
+            olderVersions:
+              pagination?.next_page && last ? `Pass before: "${last.id}" to list more` : undefined,
+          };
+          return { content: [{ type: "text", text: yaml.dump(result) }] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error listing versions: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "get_figma_comments",
+      "Read the comment threads on a Figma file, e.g. designer notes on a frame, with their replies",
+      {
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe(
+            "Only comments pinned to these nodes, comma-separated. Taken from the URL's node-id if it has one",
+          ),
+        branch: branchParam,
+        resolved: z
+          .boolean()
+          .optional()
+          .describe(
+            "true for resolved threads only, false for open threads only. Defaults to both",
+          ),
+        author: z
+          .string()
+          .optional()
+          .describe("Only threads this user took part in, by user ID or handle"),
+      },
+      async ({ url, fileKey: fileKeyParam, nodeId, branch, resolved, author }) => {
+        try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId,
+            branch,
+          });
+          const { comments } = await figmaService.getComments(
+            await figmaService.resolveBranchKey(fileKey, branch),
+          );
+          const threads = getCommentThreads(comments, { nodeIds, resolved, author });
+          Logger.log(`Found ${threads.length} of ${comments.length} comments in ${fileKey}`);
+          return { content: [{ type: "text", text: yaml.dump({ threads }) }] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error fetching comments: ${error}` }],
+          };
+        }
+      },
+    );
+
+    if (this.allowCommentWrites) {
+      server.tool(
+        "post_figma_comment",
+        "Post a comment on a Figma file pinned to a node, or reply to an existing comment thread",
+        {
+          url: figmaUrlParam,
+          fileKey: z
+            .string()
+            .optional()
+            .describe("The key of the Figma file. Ignored if url is set"),
+          nodeId: z
+            .string()
+            .optional()
+            .describe("The node to pin the comment to. Taken from the URL's node-id if it has one"),
+          branch: branchParam,
+          message: z.string().describe("Text of the comment"),
+          replyTo: z
+            .string()
+            .optional()
+            .describe(
+              "ID of a top-level comment from get_figma_comments to reply to instead of pinning a new comment",
+            ),
+          offsetX: z
+            .number()
+            .optional()
+            .describe("Horizontal offset of the pin from the node's top-left corner"),
+          offsetY: z
+            .number()
+            .optional()
+            .describe("Vertical offset of the pin from the node's top-left corner"),
+        },
+        async ({
+          url,
+          fileKey: fileKeyParam,
+          nodeId,
+          branch,
+          message,
+          replyTo,
+          offsetX,
+          offsetY,
+        }) => {
+          try {
+            const { fileKey, nodeIds } = resolveFigmaTarget({
+              url,
+              fileKey: fileKeyParam,
+              nodeId,
+              branch,
+            });
+            if (!replyTo && nodeIds.length > 1) {
+              throw new Error(
+                `A comment can only be pinned to one node, got ${nodeIds.join(", ")}`,
+              );
+            }
+            const comment = await figmaService.postComment(
+              await figmaService.resolveBranchKey(fileKey, branch),
+              buildCommentRequest({
+                message,
+                nodeId: nodeIds[0],
+                offset: { x: offsetX ?? 0, y: offsetY ?? 0 },
+                replyTo,
+              }),
+            );
+            Logger.log(`Posted comment ${comment.id} in ${fileKey}`);
+            const result = {
+              id: comment.id,
+              replyTo: comment.parent_id || undefined,
+              nodeId: replyTo ? undefined : nodeIds[0],
+              createdAt: comment.created_at,
+            };
+            return { content: [{ type: "text", text: yaml.dump(result) }] };
+          } catch (error) {
+            return {
+              isError: true,
+              content: [{ type: "text", text: `Error posting comment: ${error}` }],
+            };
+          }
+        },
+      );
+    }
+
+    server.tool(
+      "diff_figma_nodes",
+      "Compare a Figma node at two versions, or two different nodes, and list the nodes added, removed and moved, and the text, fills, layout, effects and text styles that changed",
+      {
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("The node to compare, formatted as 1234:5678. Ignored if url links to a node"),
+        compareNodeId: z
+          .string()
+          .optional()
+          .describe("Another node to compare against. Defaults to the same node"),
+        fromVersion: z
+          .string()
+          .optional()
+          .describe(
+            "Version ID of the earlier state, from get_figma_versions. Defaults to the current state",
+          ),
+        toVersion: z
+          .string()
+          .optional()
+          .describe("Version ID of the later state. Defaults to the current state"),
+        branch: branchParam,
+        depth: z.number().optional().describe("How many levels of children to compare"),
+        noCache: noCacheParam,
+      },
+      async ({
+        url,
+        fileKey: fileKeyParam,
+        nodeId: nodeIdParam,
+        compareNodeId,
+        fromVersion,
+        toVersion,
+        branch,
+        depth,
+        noCache,
+      }) => {
+        try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId: nodeIdParam,
+            branch,
+          });
+          if (nodeIds.length !== 1) {
+            throw new FigmaUrlError("diff_figma_nodes needs exactly one node ID");
+          }
+          const [nodeId] = nodeIds;
+          const otherNodeId = compareNodeId
+            ? resolveFigmaTarget({ fileKey, nodeId: compareNodeId }).nodeIds[0]
+            : nodeId;
+          if (otherNodeId === nodeId && fromVersion === toVersion) {
+            throw new Error("Give a compareNodeId, or a fromVersion or toVersion to compare");
+          }
+
+          const [before, after] = await Promise.all([
+            figmaService.getNode(fileKey, nodeId, depth, { version: fromVersion, branch, noCache }),
+            figmaService.getNode(fileKey, otherNodeId, depth, {
+              version: toVersion,
+              branch,
+              noCache,
+            }),
+          ]);
+          return { content: [{ type: "text", text: yaml.dump(diffDesigns(before, after)) }] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error comparing nodes: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "download_figma_images",
+      "Download SVG, PNG, JPG or PDF renders of nodes, and image fills by imageRef, from a Figma file",
+      {
+        url: figmaUrlParam,
+        fileKey: z
+          .string()
+          .optional()
+          .describe("The key of the Figma file containing the nodes. Ignored if url is set"),
+        nodes: z
+          .object({
+            nodeId: z.string().describe("The ID of the Figma node, formatted as 1234:5678"),
+            imageRef: z
+              .string()
+              .optional()
+              .describe(
+                "If set, the image fill with this imageRef is downloaded instead of a render of the node",
+              ),
+            fileName: z
+              .string()
+              .optional()
+              .describe(
+                "The local file name, without directories. Defaults to the node ID plus the render format's extension, or for image fills the imageRef plus the extension of the image's own type",
+              ),
+          })
+          .array()
+          .min(1)
+          .describe("The nodes and image fills to download"),
+        format: z
+          .enum(["png", "svg", "jpg", "pdf"])
+          .default("png")
+          .describe("Render format for nodes without an imageRef"),
+        scale: z
+          .number()
+          .min(0.01)
+          .max(4)
+          .default(2)
+          .describe("Render scale for png and jpg exports"),
+        localPath: z
+          .string()
+          .describe("Directory to save the files in, relative to the workspace root"),
+        version: versionParam,
+        branch: branchParam,
+      },
+      async ({ url, fileKey: fileKeyParam, nodes, format, scale, localPath, version, branch }) => {
+        try {
+          const { fileKey } = resolveFigmaTarget({ url, fileKey: fileKeyParam, branch });
+          const targetDir = resolveWorkspacePath(localPath);
+          const fills = nodes.filter(
+            (node): node is typeof node & { imageRef: string } => !!node.imageRef,
+          );
+          const renders = nodes
+            .filter(({ imageRef }) => !imageRef)
+            .map(({ nodeId, fileName }) => ({
+              nodeId,
+              fileName: fileName ?? `${nodeId.replace(/:/g, "-")}.${format}`,
+              fileType: format,
+            }));
+
+          // One downloader for both, so a fill and a render can't claim the same file
+          const downloader = createImageDownloader(targetDir);
+          const results = (
+            await Promise.all([
+              figmaService.getImageFills(fileKey, fills, targetDir, { branch, downloader }),
+              figmaService.getImages(fileKey, renders, targetDir, {
+                scale,
+                version,
+                branch,
+                downloader,
+              }),
+            ])
+          ).flat();
+
+          const failed = results.filter(({ success }) => !success).length;
+          return {
+            isError: failed === results.length,
+            content: [
+              {
+                type: "text",
+                text: yaml.dump({
+                  summary: `Downloaded ${results.length - failed} of ${results.length} images`,
+                  results,
+                }),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error downloading images: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "get_figma_context",
+      "Get the enriched context of a Figma node: its text, a summary, dimmer/dimmed background detection and a hierarchy with image descriptions",
+      {
+        url: z
+          .string()
+          .optional()
+          .describe(
+            "A Figma link to the node, e.g. https://www.figma.com/design/<fileKey>/...?node-id=1-2",
+          ),
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("The ID of the node, formatted as 1234:5678. Ignored if url links to a node"),
+        version: versionParam,
+        branch: branchParam,
+        noCache: noCacheParam,
+      },
+      async ({ url, fileKey: fileKeyParam, nodeId: nodeIdParam, version, branch, noCache }) => {
+        try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId: nodeIdParam,
+            branch,
+          });
+          const [nodeId] = nodeIds;
+          if (!nodeId) {
+            return {
+              isError: true,
+              content: [
+                {
+                  type: "text",
+                  text: url
+                    ? `Could not find a node-id in ${url}`
+                    : "Either url, or both fileKey and nodeId, are required",
+                },
+              ],
+            };
+          }
+
+          const context = await this.getContextService(figmaService).getContext(fileKey, nodeId, {
+            version,
+            branch,
+            noCache,
+          });
+          if (!context) {
+            return {
+              isError: true,
+              content: [{ type: "text", text: `Node ${nodeId} not found in file ${fileKey}` }],
+            };
+          }
+
+          return { content: [{ type: "text", text: yaml.dump(context) }] };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error building context: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "export_design_tokens",
+      "Export the colors, gradients, typography and shadows of a Figma file as design tokens: W3C DTCG JSON, CSS custom properties and a Tailwind theme.extend config",
+      {
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("Only collect tokens used inside this node, formatted as 1234:5678"),
+        version: versionParam,
+        branch: branchParam,
+        noCache: noCacheParam,
+        format: z
+          .enum(["dtcg", "css", "tailwind", "all"])
+          .default("all")
+          .describe("Which token format to produce"),
+        includeUnnamed: z
+          .boolean()
+          .default(false)
+          .describe("Also export values that are not bound to a shared Figma style"),
+        outputDir: z
+          .string()
+          .optional()
+          .describe(
+            "If set, write tokens.json, tokens.css and/or tailwind.tokens.js to this directory instead of returning them",
+          ),
+      },
+      async ({
+        url,
+        fileKey: fileKeyParam,
+        nodeId,
+        version,
+        branch,
+        noCache,
+        format,
+        includeUnnamed,
+        outputDir,
+      }) => {
+        try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId,
+            branch,
+          });
+          const tokens = await fetchDesignTokens(
+            figmaService,
+            fileKey,
+            nodeIds.join(",") || undefined,
+            { includeUnnamed, version, branch, noCache },
+          );
+          const formats: DesignTokenFormat[] =
+            format === "all" ? ["dtcg", "css", "tailwind"] : [format];
+          const files = renderDesignTokens(tokens, formats);
+
+          if (outputDir) {
+            const written = writeFiles(resolveWorkspacePath(outputDir), files);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: yaml.dump({ tokens: tokens.length, files: written }),
+                },
+              ],
+            };
+          }
+
+          return {
+            content: Object.entries(files).map(([fileName, content]) => ({
+              type: "text" as const,
+              text: `${fileName}:\n${content}`,
+            })),
+          };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error exporting design tokens: ${error}` }],
+          };
+        }
+      },
+    );
+
+    server.tool(
+      "generate_component_code",
+      "Generate a React (TSX) component from a Figma node as a deterministic baseline to refine: layout becomes flexbox, fills, strokes, effects and text styles become CSS, and text nodes become text content",
+      {
+        url: figmaUrlParam,
+        fileKey: z.string().optional().describe("The key of the Figma file. Ignored if url is set"),
+        nodeId: z
+          .string()
+          .optional()
+          .describe("The ID of the node to generate, formatted as 1234:5678"),
+        depth: z.number().optional().describe("How many levels of children to include"),
+        version: versionParam,
+        branch: branchParam,
+        noCache: noCacheParam,
+        styleMode: z
+          .enum(["css-modules", "inline"])
+          .default("css-modules")
+          .describe("Write styles to a CSS module, or inline them as style props"),
+        componentName: z
+          .string()
+          .optional()
+          .describe("Name of the component. Defaults to the node's name in PascalCase"),
+        outputDir: z
+          .string()
+          .optional()
+          .describe(
+            "If set, write the component files to this directory instead of returning them",
+          ),
+      },
+      async ({
+        url,
+        fileKey: fileKeyParam,
+        nodeId,
+        depth,
+        version,
+        branch,
+        noCache,
+        styleMode,
+        componentName,
+        outputDir,
+      }) => {
+        try {
+          const { fileKey, nodeIds } = resolveFigmaTarget({
+            url,
+            fileKey: fileKeyParam,
+            nodeId,
+            branch,
+          });
+          if (nodeIds.length !== 1) {
+            throw new FigmaUrlError("generate_component_code needs exactly one node ID");
+          }
+          const design = await figmaService.getNode(fileKey, nodeIds[0], depth, {
+            version,
+            branch,
+            noCache,
+          });
+          const { files } = generateReactComponent(design, { componentName, styleMode });
+
+          if (outputDir) {
+            const written = writeFiles(resolveWorkspacePath(outputDir), files);
+            return { content: [{ type: "text", text: yaml.dump({ files: written }) }] };
+          }
+
+          return {
+            content: Object.entries(files).map(([fileName, content]) => ({
+              type: "text" as const,
+              text: `${fileName}:\n${content}`,
+            })),
+          };
+        } catch (error) {
+          return {
+            isError: true,
+            content: [{ type: "text", text: `Error generating component: ${error}` }],
+          };
+        }
+      },
+    );
   }
 
   async connect(transport: Transport): Promise<void> {
@@ -83,13 +922,22 @@ export class FigmaMcpServer {
     app.use(express.json());
 
     app.get("/sse", async (req: Request, res: Response) => {
+      const auth = getRequestAuth(req.headers);
+      if (!auth && !this.hasDefaultKey) {
+        res.status(401).send(MISSING_CREDENTIALS);
+        return;
+      }
       const transport = new SSEServerTransport(
         "/messages",
-        res as unknown as ServerResponse<IncomingMessage>
+        res as unknown as ServerResponse<IncomingMessage>,
       );
       this.transports[transport.sessionId] = transport;
-      res.on("close", () => delete this.transports[transport.sessionId]);
-      await this.server.connect(transport);
+      this.sessionAuth[transport.sessionId] = auth;
+      res.on("close", () => {
+        delete this.transports[transport.sessionId];
+        delete this.sessionAuth[transport.sessionId];
+      });
+      await this.createServer(auth).connect(transport);
     });
 
     app.post("/messages", async (req: Request, res: Response) => {
@@ -98,227 +946,172 @@ export class FigmaMcpServer {
         res.status(400).send(`No transport found for sessionId ${sessionId}`);
         return;
       }
-      await this.transports[sessionId].handlePostMessage(req, res);
+      if (!this.matchesSessionAuth(sessionId, req)) {
+        res.status(403).send(SESSION_CREDENTIALS_MISMATCH);
+        return;
+      }
+      await this.transports[sessionId].handlePostMessage(req, res, req.body);
     });
 
-    app.post("/context", async (req: Request, res: Response) => {
-      try {
-        const { figma_url, access_token } = req.body;
+    // Streamable HTTP transport: one endpoint for POST (messages), GET (server stream) and
+    // DELETE (end session), with the session ID carried in the Mcp-Session-Id header
+    app.all("/mcp", async (req: Request, res: Response) => {
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let transport = sessionId ? this.streamableTransports[sessionId] : undefined;
 
-        function extractFileKey(url: string): string | null {
-          const match = url.match(/\/(?:file|design)\/([a-zA-Z0-9]+)/);
-          return match ? match[1] : null;
+      if (transport) {
+        if (!this.matchesSessionAuth(sessionId!, req)) {
+          res.status(403).json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: SESSION_CREDENTIALS_MISMATCH },
+            id: null,
+          });
+          return;
         }
-
-        function extractNodeId(url: string): string | null {
-          const match = url.match(/node-id=([a-zA-Z0-9%:\-]+)/);
-          if (!match) return null;
-          return match[1].replace("-", ":");
+      } else {
+        if (sessionId) {
+          res.status(404).json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: `Session ${sessionId} not found` },
+            id: null,
+          });
+          return;
         }
-
-        const fileKey = extractFileKey(figma_url);
-        const nodeId = extractNodeId(figma_url);
-
-        if (!fileKey || !nodeId) {
-          return res.status(400).json({ error: "Invalid Figma URL" });
+        if (req.method !== "POST" || !isInitializeRequest(req.body)) {
+          res.status(400).json({
+            jsonrpc: "2.0",
+            error: { code: -32000, message: "Bad Request: No valid session ID provided" },
+            id: null,
+          });
+          return;
         }
 
-        const openaiApiKey = process.env.OPEN_API_KEY;
-        if (!openaiApiKey) {
-          return res.status(500).json({ error: "OpenAI API key is not set in environment variables." });
+        const auth = getRequestAuth(req.headers);
+        if (!auth && !this.hasDefaultKey) {
+          res.status(401).json({
+            jsonrpc: "2.0",
+            error: { code: -32001, message: MISSING_CREDENTIALS },
+            id: null,
+          });
+          return;
         }
 
-        const options = {
-          hostname: 'api.figma.com',
-          path: `/v1/files/${fileKey}/nodes?ids=${nodeId}`,
-          method: 'GET',
-          headers: {
-            'X-Figma-Token': access_token
-          }
-        };
-
-        const figmaResponse: any = await new Promise((resolve, reject) => {
-          const req = https.request(options, (res) => {
-            let data = '';
-            res.on('data', (chunk) => data += chunk);
-            res.on('end', () => resolve(JSON.parse(data)));
-          });
-          req.on('error', reject);
-          req.end();
+        const newTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: (id) => {
+            this.streamableTransports[id] = newTransport;
+            this.sessionAuth[id] = auth;
+          },
         });
+        const sessionServer = this.createServer(auth);
+        // connect() takes over the transport's onclose, so clean up when the server closes instead
+        sessionServer.server.onclose = () => {
+          clearTimeout(this.sessionActivity.get(newTransport)?.idleTimer);
+          this.sessionActivity.delete(newTransport);
+          if (!newTransport.sessionId) return;
+          delete this.streamableTransports[newTransport.sessionId];
+          delete this.sessionAuth[newTransport.sessionId];
+        };
+        await sessionServer.connect(newTransport);
+        transport = newTransport;
+      }
 
-        const node = figmaResponse.nodes?.[nodeId]?.document;
-        if (!node) {
-          return res.status(404).json({ error: "Node not found in Figma response" });
-        }
+      this.trackSessionActivity(transport, res);
+      await transport.handleRequest(
+        req as unknown as IncomingMessage,
+        res as unknown as ServerResponse<IncomingMessage>,
+        req.body,
+      );
+    });
 
-        const imageNodeIds = findImageNodeIds(node);
-        const imageUrls = await fetchImageUrls(fileKey, imageNodeIds, access_token);
+    app.post("/context", async (req: Request, res: Response) => {
+      try {
+        const { figma_url, access_token } = req.body;
 
-        function findText(n: any): string[] {
-          if (n.type === "TEXT" && n.characters) return [n.characters];
-          if (n.children) return n.children.flatMap(findText);
-          return [];
+        if (typeof figma_url !== "string") {
+          res.status(400).json({ error: "figma_url is required" });
+          return;
         }
-
-        const texts = findText(node);
-        const targetText = texts.join("\n");
-        const nodeInfo = { path: [node?.name || "이름 없음"] };
-        const contextSummary = `이 노드는 ${node?.type} 타입이며 이름은 "${node?.name}"입니다.
-` +
-          `텍스트: ${targetText.substring(0, 40)}...
-` +
-          `버튼 위치: ${JSON.stringify(node?.absoluteBoundingBox || {})}
-` +
-          `색상: ${JSON.stringify(node?.fills || [])}
-` +
-          `스타일: ${JSON.stringify(node?.style || {})}`;
-
-        function findFirstPosition(n: any): any {
-          if (n.absoluteBoundingBox) return n.absoluteBoundingBox;
-          if (n.children) {
-            for (const child of n.children) {
-              const found = findFirstPosition(child);
-              if (found) return found;
-            }
-          }
-          return null;
+        const { fileKey, branchKey, nodeIds } = parseFigmaUrl(figma_url);
+        const [nodeId] = nodeIds;
+        if (!nodeId) {
+          res.status(400).json({ error: `Could not find a node-id in ${figma_url}` });
+          return;
         }
 
-        const resolvedPosition = node?.absoluteBoundingBox || findFirstPosition(node);
-        const position = resolvedPosition || "❌ 위치 정보 없음";
-
-        const explanation = `이 오브젝트는 '${node?.name}'라는 이름을 가진 ${node?.type} 타입입니다.
-` +
-          `위치는 ${resolvedPosition ? `x: ${resolvedPosition.x}, y: ${resolvedPosition.y}` : "확인되지 않음"}이며, ` +
-          `배경 색상은 ${node?.fills?.[0]?.color ? JSON.stringify(node.fills[0].color) : "제공되지 않음"}입니다.
-` +
-          `텍스트는 '${targetText.substring(0, 30)}...'이며, 시각 강조 스타일은 ${node?.style ? JSON.stringify(node.style) : "없음"}입니다.`;
-
-        async function buildHierarchy(
-          node: any, 
-          imageUrls: Record<string, string>, 
-          openaiApiKey: string,
-          frameWidth?: number,
-          dimmerFound: boolean = false // 이전에 dimmer를 발견했는지 여부
-        ): Promise<any> {
-          const { isVisible } = require("./utils/common");
-
-          // 최상위 호출인 경우 frame width 저장
-          if (frameWidth === undefined) {
-            const frame = findParentFrame(node);
-            if (frame?.absoluteBoundingBox) {
-              frameWidth = frame.absoluteBoundingBox.width;
-              console.log(`\n[프레임 정보]
-              - 프레임 이름: ${frame.name}
-              - 프레임 width: ${frameWidth}px\n`);
-            }
-          }
-
-          // 현재 노드가 dimmer인지 판단
-          const isCurrentNodeDimmer = determineIfBackground(node, frameWidth);
-
-          // children 먼저 처리 (레이어 순서대로)
-          let children: any[] = [];
-          let hasDimmerInChildren = false;
-
-          if (node.children) {
-            // 정방향으로 처리 (인덱스 0이 가장 아래 레이어)
-            for (let i = 0; i < node.children.length; i++) {
-              const child = node.children[i];
-              if (!isVisible(child)) continue;
-
-              // 이전에 dimmer를 발견했거나, 현재까지 처리한 children에서 dimmer를 발견했으면
-              // 그 이후의 레이어들은 모두 dimmed
-              const childResult = await buildHierarchy(
-                child,
-                imageUrls,
-                openaiApiKey,
-                frameWidth,
-                dimmerFound || hasDimmerInChildren
-              );
-
-              // child가 dimmer인지 체크하고 표시
-              if (childResult.isBackground === 'dimmer') {
-                hasDimmerInChildren = true;
-              }
-
-              children.push(childResult);
-            }
-          }
-
-          // 현재 노드의 상태 결정
-          let backgroundState = 'visible';
-          
-          if (isCurrentNodeDimmer) {
-            backgroundState = 'dimmer';
-            console.log(`✅ Dimmer 오브젝트 발견!
-            - 이름: ${node.name}
-            - Width: ${node.absoluteBoundingBox?.width}px
-            - Opacity: ${(node.opacity !== undefined ? node.opacity : 1) * 100}%`);
-          } else if (dimmerFound || hasDimmerInChildren) {
-            // 상위에서 dimmer를 발견했거나, children에서 dimmer를 발견했으면 dimmed
-            backgroundState = 'dimmed';
-            console.log(`🔍 Dimmed 오브젝트 설정:
-            - 이름: ${node.name}
-            - 상위 Dimmer 존재: ${dimmerFound}
-            - Children에서 Dimmer 발견: ${hasDimmerInChildren}`);
-          }
-
-          const simplified: any = {
-            name: node.name || "이름 없음",
-            type: node.type,
-            characters: node.characters || "",
-            position: node.absoluteBoundingBox || null,
-            fills: node.fills || [],
-            strokes: node.strokes || [],
-            style: node.style || {},
-            effects: node.effects || [],
-            isBackground: backgroundState,
-          };
-          
-          if (imageUrls[node.id]) {
-            simplified.image_url = imageUrls[node.id];
-            try {
-              simplified.vision_text = await analyzeImageWithOpenAIVision(imageUrls[node.id], openaiApiKey);
-            } catch (e) {
-              simplified.vision_text = "이미지 분석 실패: " + (e instanceof Error ? e.message : String(e));
-            }
-          }
+        // Headers win over the older access_token body field, which only takes personal tokens
+        const auth =
+          getRequestAuth(req.headers) ??
+          (typeof access_token === "string" && access_token
+            ? { type: "personal" as const, token: access_token }
+            : undefined);
+        if (!auth && !(this.contextServerKeyFallback && this.hasDefaultKey)) {
+          res.status(401).json({ error: `access_token is required. ${MISSING_CREDENTIALS}` });
+          return;
+        }
 
-          if (children.length > 0) {
-            simplified["children"] = children;
-          }
-          
-          return simplified;
+        const contextService = auth
+          ? this.getContextService(this.createFigmaService(auth))
+          : this.contextService;
+        const context = await contextService.getContext(branchKey ?? fileKey, nodeId);
+        if (!context) {
+          res.status(404).json({ error: "Node not found in Figma response" });
+          return;
         }
 
-        const hierarchy = await buildHierarchy(node, imageUrls, openaiApiKey);
-
-        res.json({
-          name: node?.name || "이름 없음",
-          target_text: targetText,
-          context_summary: contextSummary,
-          node_info: nodeInfo,
-          position: position,
-          fills: node?.fills || [],
-          strokes: node?.strokes || [],
-          style: node?.style || {},
-          effects: node?.effects || [],
-          explanation: explanation,
-          hierarchy: hierarchy
-        });
+        res.json(context);
       } catch (e: any) {
+        if (e instanceof FigmaUrlError) {
+          res.status(400).json({ error: e.message });
+          return;
+        }
+        if (e instanceof FigmaApiError) {
+          res.status(e.status).json({ error: e.message, kind: e.kind });
+          return;
+        }
         console.error("❌ /context 오류:", e);
         res.status(500).json({ error: "Internal server error", detail: e?.message });
       }
     });
 
-    this.httpServer = app.listen(port, () => {
-      Logger.log(`HTTP server listening on port ${port}`);
+    await new Promise<void>((resolve) => {
+      this.httpServer = app.listen(port, () => {
+        Logger.log(`HTTP server listening on port ${port}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Restart a session's idle timeout once its last open request, such as a long-lived GET
+   * stream, has finished
+   */
+  private trackSessionActivity(transport: StreamableHTTPServerTransport, res: Response): void {
+    const activity = this.sessionActivity.get(transport) ?? { openRequests: 0 };
+    this.sessionActivity.set(transport, activity);
+    clearTimeout(activity.idleTimer);
+    activity.openRequests++;
+
+    res.on("close", () => {
+      activity.openRequests--;
+      if (activity.openRequests > 0 || !this.sessionActivity.has(transport)) return;
+      activity.idleTimer = setTimeout(() => {
+        Logger.log(`Closing idle session ${transport.sessionId}`);
+        transport.close().catch((error) => Logger.error("Failed to close idle session:", error));
+      }, this.sessionIdleTimeoutMs);
+      activity.idleTimer.unref();
     });
   }
 
+  /**
+   * Requests on a session must carry the credentials it was started with, so a session ID alone
+   * can't be used to act with someone else's token
+   */
+  private matchesSessionAuth(sessionId: string, req: Request): boolean {
+    return isSameAuth(getRequestAuth(req.headers), this.sessionAuth[sessionId]);
+  }
+
   async stopHttpServer(): Promise<void> {
     if (!this.httpServer) throw new Error("HTTP server is not running");
     return new Promise((resolve, reject) => {
@@ -326,64 +1119,11 @@ export class FigmaMcpServer {
         if (err) return reject(err);
         this.httpServer = null;
         Promise.all(
-          Object.values(this.transports).map((transport) => transport.close())
-        ).then(resolve);
+          [...Object.values(this.transports), ...Object.values(this.streamableTransports)].map(
+            (transport) => transport.close(),
+          ),
+        ).then(() => resolve());
       });
     });
   }
 }
-
-// 현재 노드가 속한 프레임을 찾는 함수
-function findParentFrame(node: any): any {
-  // 자신이 프레임이면 반환
-  if (node.type === "FRAME") {
-    return node;
-  }
-
-  // 부모가 없으면 null 반환
-  if (!node.parent) {
-    return null;
-  }
-
-  // 부모로 올라가면서 프레임 찾기
-  return findParentFrame(node.parent);
-}
-
-// Background 여부를 판단하는 함수
-function determineIfBackground(node: any, frameWidth?: number): boolean {
-  if (!node.absoluteBoundingBox || !frameWidth) {
-    return false;
-  }
-
-  const { width, height } = node.absoluteBoundingBox;
-  const opacity = node.opacity !== undefined ? node.opacity : 1;
-  const name = (node.name || "").toLowerCase();
-
-  // 필수 조건 체크
-  const isWidthSufficient = width >= frameWidth;
-  const isHeightSufficient = height >= 100;
-
-  // 필수 조건이 충족되지 않으면 바로 false 반환
-  if (!isWidthSufficient || !isHeightSufficient) {
-    return false;
-  }
-
-  // 추가 조건 체크
-  const isOpacityLow = opacity <= 0.6;
-  const hasDimmInName = name.includes('dimm');
-
-  // 딤드 오브젝트 발견 시에만 로그 출력
-  if (isOpacityLow || hasDimmInName) {
-    console.log(`✅ 딤드 오브젝트 발견!
-    - 이름: ${name}
-    - Width: ${width}px
-    - Opacity: ${opacity * 100}%
-    - 조건 만족:
-      * Width 충분: ${isWidthSufficient ? '✓' : '✗'} (${width}px >= ${frameWidth}px)
-      * Height 충분: ${isHeightSufficient ? '✓' : '✗'} (${height}px >= 100px)
-      * Opacity 60% 이하: ${isOpacityLow ? '✓' : '✗'} (${opacity * 100}%)
-      * 이름에 'dimm' 포함: ${hasDimmInName ? '✓' : '✗'}`);
-  }
-
-  return isOpacityLow || hasDimmInName;
-}
\ No newline at end of file
@@ -0,0 +1,120 @@
+import type { Comment, PostCommentRequestBody } from "@figma/rest-api-spec";
+
+export type CommentQuery = {
+  /**
+   * Only threads pinned to one of these nodes
+   */
+  nodeIds?: string[];
+  /**
+   * Only resolved threads when true, only open ones when false
+   */
+  resolved?: boolean;
+  /**
+   * Only threads someone took part in, by user ID or a case-insensitive part of their handle
+   */
+  author?: string;
+};
+
+export type CommentReply = {
+  id: string;
+  author: string;
+  message: string;
+  createdAt: string;
+};
+
+export type CommentThread = CommentReply & {
+  /**
+   * The number Figma shows on the comment pin
+   */
+  number?: string;
+  /**
+   * The node the comment is pinned to. Unset for comments placed on the canvas
+   */
+  nodeId?: string;
+  resolvedAt?: string;
+  replies?: CommentReply[];
+};
+
+export type NewComment = {
+  message: string;
+  /**
+   * Node to pin a new comment to
+   */
+  nodeId?: string;
+  /**
+   * Offset of the pin from the node's top-left corner. Defaults to the corner itself
+   */
+  offset?: { x: number; y: number };
+  /**
+   * ID of the top-level comment to reply to. Takes precedence over nodeId
+   */
+  replyTo?: string;
+};
+
+/**
+ * Group a file's comments into threads of a top-level comment and its replies, keeping the threads
+ * that match every given criterion
+ */
+export function getCommentThreads(comments: Comment[], query: CommentQuery = {}): CommentThread[] {
+  const { nodeIds, resolved, author } = query;
+  const repliesByParent = new Map<string, Comment[]>();
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    repliesByParent.set(comment.parent_id, [
+      ...(repliesByParent.get(comment.parent_id) ?? []),
+      comment,
+    ]);
+  }
+
+  const isByAuthor = ({ user }: Comment) =>
+    !!author && (user.id === author || user.handle.toLowerCase().includes(author.toLowerCase()));
+
+  return comments
+    .filter((comment) => !comment.parent_id)
+    .filter((comment) => {
+      const replies = repliesByParent.get(comment.id) ?? [];
+      const nodeId = getPinnedNodeId(comment);
+      return (
+        (!nodeIds?.length || (!!nodeId && nodeIds.includes(nodeId))) &&
+        (resolved === undefined || !!comment.resolved_at === resolved) &&
+        (!author || isByAuthor(comment) || replies.some(isByAuthor))
+      );
+    })
+    .map((comment) => {
+      const replies = (repliesByParent.get(comment.id) ?? []).map(toReply);
+      return {
+        ...toReply(comment),
+        number: comment.order_id ?? undefined,
+        nodeId: getPinnedNodeId(comment),
+        resolvedAt: comment.resolved_at ?? undefined,
+        replies: replies.length ? replies : undefined,
+      };
+    });
+}
+
+/**
+ * Build the request body for a new comment pinned to a node, or a reply to an existing thread
+ */
+export function buildCommentRequest({
+  message,
+  nodeId,
+  offset,
+  replyTo,
+}: NewComment): PostCommentRequestBody {
+  if (!message.trim()) throw new Error("A comment needs a message");
+  if (replyTo) return { message, comment_id: replyTo };
+  if (!nodeId)
+    throw new Error("A comment needs either a node to pin it to or a comment to reply to");
+  return {
+    message,
+    client_meta: { node_id: nodeId, node_offset: { x: offset?.x ?? 0, y: offset?.y ?? 0 } },
+  };
+}
+
+function getPinnedNodeId({ client_meta }: Comment): string | undefined {
+  return client_meta && "node_id" in client_meta ? client_meta.node_id : undefined;
+}
+
+function toReply({ id, user, message, created_at }: Comment): CommentReply {
+  return { id, author: user.handle, message, createdAt: created_at };
+}
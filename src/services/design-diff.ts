@@ -0,0 +1,183 @@
+import { stableStringify } from "~/utils/common.js";
+import type { SimplifiedDesign, SimplifiedNode } from "./simplify-node-response.js";
+
+export type DiffNodeRef = {
+  id: string;
+  name: string;
+  type: string;
+  /**
+   * Names of the node's ancestors below the compared root, outermost first
+   */
+  path: string[];
+};
+
+export type PropertyChange = {
+  /**
+   * The changed property, with a dot for fields of layout, text style and effects, e.g. layout.gap
+   */
+  property: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type DesignDiff = {
+  /**
+   * How nodes were paired up: by ID for two versions of a node, by name path for different nodes
+   */
+  matchedBy: "id" | "path";
+  /**
+   * Nodes that are new, not counting their descendants
+   */
+  added: (DiffNodeRef & { nodeCount: number })[];
+  /**
+   * Nodes that are gone, not counting their descendants
+   */
+  removed: (DiffNodeRef & { nodeCount: number })[];
+  /**
+   * Nodes that now have a different parent
+   */
+  moved: (DiffNodeRef & { from: string[] })[];
+  changed: (DiffNodeRef & { changes: PropertyChange[] })[];
+};
+
+type IndexedNode = {
+  node: SimplifiedNode;
+  path: string[];
+  parentKey?: string;
+};
+
+/**
+ * Properties that reference a value in globalVars.styles
+ */
+const STYLE_REF_PROPERTIES = ["textStyle", "fills", "strokes", "effects", "layout"] as const;
+/**
+ * Object-valued properties whose fields are compared one by one
+ */
+const FIELD_DIFF_PROPERTIES = new Set(["textStyle", "layout", "effects"]);
+const COMPARED_PROPERTIES = [
+  "name",
+  "type",
+  "text",
+  "textSegments",
+  ...STYLE_REF_PROPERTIES,
+  "styles",
+  "opacity",
+  "borderRadius",
+  "componentId",
+  "variant",
+  "componentProperties",
+] as const;
+
+/**
+ * Compare the first root node of two simplified designs, e.g. one node at two versions or two
+ * variants of a screen. Style values are resolved from each design's globalVars, so changes show
+ * up as values rather than as renamed variables
+ */
+export function diffDesigns(before: SimplifiedDesign, after: SimplifiedDesign): DesignDiff {
+  const [beforeRoot] = before.nodes;
+  const [afterRoot] = after.nodes;
+  if (!beforeRoot || !afterRoot)
+    throw new Error("The node was not found in one of the compared designs");
+
+  const matchedBy = beforeRoot.id === afterRoot.id ? "id" : "path";
+  const beforeNodes = indexNodes(beforeRoot, matchedBy);
+  const afterNodes = indexNodes(afterRoot, matchedBy);
+  const diff: DesignDiff = { matchedBy, added: [], removed: [], moved: [], changed: [] };
+
+  for (const [key, entry] of afterNodes) {
+    const previous = beforeNodes.get(key);
+    if (!previous) {
+      // Only report the top of a new subtree
+      if (entry.parentKey === undefined || beforeNodes.has(entry.parentKey)) {
+        diff.added.push({ ...toRef(entry), nodeCount: countNodes(entry.node) });
+      }
+      continue;
+    }
+
+    if (previous.parentKey !== entry.parentKey) {
+      diff.moved.push({ ...toRef(entry), from: previous.path });
+    }
+    const changes = diffProperties(before, previous.node, after, entry.node);
+    if (changes.length) diff.changed.push({ ...toRef(entry), changes });
+  }
+
+  for (const [key, entry] of beforeNodes) {
+    if (afterNodes.has(key)) continue;
+    if (entry.parentKey === undefined || afterNodes.has(entry.parentKey)) {
+      diff.removed.push({ ...toRef(entry), nodeCount: countNodes(entry.node) });
+    }
+  }
+
+  return diff;
+}
+
+function indexNodes(root: SimplifiedNode, matchBy: "id" | "path"): Map<string, IndexedNode> {
+  const index = new Map<string, IndexedNode>();
+  const visit = (node: SimplifiedNode, key: string, path: string[], parentKey?: string) => {
+    index.set(key, { node, path, parentKey });
+    // Siblings sharing a name are told apart by how many came before them
+    const seen = new Map<string, number>();
+    for (const child of node.children ?? []) {
+      const occurrence = seen.get(child.name) ?? 0;
+      seen.set(child.name, occurrence + 1);
+      const childKey =
+        matchBy === "id" ? child.id : `${key}/${child.name}${occurrence ? `#${occurrence}` : ""}`;
+      visit(child, childKey, [...path, node.name], key);
+    }
+  };
+  visit(root, matchBy === "id" ? root.id : "", []);
+  return index;
+}
+
+function diffProperties(
+  beforeDesign: SimplifiedDesign,
+  before: SimplifiedNode,
+  afterDesign: SimplifiedDesign,
+  after: SimplifiedNode,
+): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+  for (const property of COMPARED_PROPERTIES) {
+    const previous = resolveProperty(beforeDesign, before, property);
+    const current = resolveProperty(afterDesign, after, property);
+    if (stableStringify(previous) === stableStringify(current)) continue;
+
+    if (FIELD_DIFF_PROPERTIES.has(property) && isRecord(previous) && isRecord(current)) {
+      for (const field of new Set([...Object.keys(previous), ...Object.keys(current)])) {
+        if (stableStringify(previous[field]) !== stableStringify(current[field])) {
+          changes.push({
+            property: `${property}.${field}`,
+            before: previous[field],
+            after: current[field],
+          });
+        }
+      }
+    } else {
+      changes.push({ property, before: previous, after: current });
+    }
+  }
+  return changes;
+}
+
+function resolveProperty(
+  design: SimplifiedDesign,
+  node: SimplifiedNode,
+  property: (typeof COMPARED_PROPERTIES)[number],
+): unknown {
+  const value = node[property];
+  if ((STYLE_REF_PROPERTIES as readonly string[]).includes(property) && typeof value === "string") {
+    return design.globalVars.styles[value as keyof typeof design.globalVars.styles] ?? value;
+  }
+  return value;
+}
+
+function toRef({ node, path }: IndexedNode): DiffNodeRef {
+  return { id: node.id, name: node.name, type: node.type, path };
+}
+
+function countNodes(node: SimplifiedNode): number {
+  return 1 + (node.children ?? []).reduce((total, child) => total + countNodes(child), 0);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
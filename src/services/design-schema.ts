@@ -0,0 +1,366 @@
+/**
+ * Fields of a text style, shared by text styles and the runs of mixed-style text
+ */
+const TEXT_STYLE_PROPERTIES = {
+  fontFamily: { type: "string" },
+  fontWeight: { type: "number" },
+  fontSize: { type: "number" },
+  lineHeight: { type: "string" },
+  letterSpacing: { type: "string" },
+  textCase: { type: "string" },
+  textAlignHorizontal: { type: "string" },
+  textAlignVertical: { type: "string" },
+  fontStyle: { const: "italic" },
+  textDecoration: { enum: ["underline", "line-through"] },
+  paragraphSpacing: { type: "string" },
+  textIndent: { type: "string" },
+  whiteSpace: { const: "nowrap" },
+  textOverflow: { const: "ellipsis" },
+  lineClamp: { type: "integer" },
+} as const;
+
+/**
+ * JSON Schema for get_figma_data's json output. Published as an MCP resource so pipelines can
+ * validate what they parse. Keep it in step with SimplifiedDesign and SimplifiedNode
+ */
+export const SIMPLIFIED_DESIGN_SCHEMA = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: "figma://schemas/simplified-design.json",
+  title: "Simplified Figma design",
+  type: "object",
+  required: ["metadata", "nodes", "globalVars"],
+  properties: {
+    $schema: { type: "string" },
+    metadata: {
+      type: "object",
+      required: ["name", "lastModified"],
+      additionalProperties: false,
+      properties: {
+        name: { type: "string" },
+        lastModified: { type: "string" },
+        version: { type: "string" },
+        thumbnailUrl: { type: "string" },
+        components: {
+          type: "object",
+          description: "Components used in the response, by node ID",
+          additionalProperties: {
+            type: "object",
+            required: ["key", "name"],
+            properties: {
+              key: { type: "string" },
+              name: { type: "string" },
+              description: { type: "string" },
+              componentSetId: { type: "string" },
+              remote: { type: "boolean" },
+            },
+          },
+        },
+        componentSets: {
+          type: "object",
+          additionalProperties: {
+            type: "object",
+            required: ["key", "name"],
+            properties: {
+              key: { type: "string" },
+              name: { type: "string" },
+              description: { type: "string" },
+            },
+          },
+        },
+        currentVariableValues: {
+          type: "boolean",
+          description:
+            "True when a saved version was read: variables have no history, so globalVars.variables holds their current values rather than the version's",
+        },
+        tokenBudgetExceeded: {
+          type: "object",
+          description:
+            "Present when the top-level nodes alone don't fit maxTokens. They are returned anyway, with all of their children left out",
+          required: ["maxTokens", "estimatedTokens"],
+          additionalProperties: false,
+          properties: {
+            maxTokens: { type: "integer" },
+            estimatedTokens: { type: "integer" },
+          },
+        },
+      },
+    },
+    nodes: { type: "array", items: { $ref: "#/$defs/node" } },
+    globalVars: {
+      type: "object",
+      required: ["styles"],
+      additionalProperties: false,
+      properties: {
+        styles: {
+          type: "object",
+          description:
+            "Style values by ID. Nodes reference these from their layout, fills, strokes, effects and textStyle properties",
+          additionalProperties: {
+            anyOf: [
+              { type: "array", items: { $ref: "#/$defs/fill" } },
+              { $ref: "#/$defs/layout" },
+              { $ref: "#/$defs/textStyle" },
+              { $ref: "#/$defs/stroke" },
+              { $ref: "#/$defs/effects" },
+            ],
+          },
+        },
+        variables: {
+          type: "object",
+          description: "Figma variables the nodes are bound to, by ID",
+          additionalProperties: {
+            type: "object",
+            required: ["name", "type"],
+            additionalProperties: false,
+            properties: {
+              name: { type: "string" },
+              collection: { type: "string" },
+              type: { enum: ["BOOLEAN", "FLOAT", "STRING", "COLOR"] },
+              value: { $ref: "#/$defs/variableValue" },
+              valuesByMode: {
+                type: "object",
+                additionalProperties: { $ref: "#/$defs/variableValue" },
+              },
+              codeSyntax: { type: "string", description: "The variable's name in web code" },
+            },
+          },
+        },
+        styleNames: {
+          type: "object",
+          description:
+            "Names of the shared Figma styles style IDs stand for. Styles with the same value share an ID",
+          additionalProperties: { type: "array", items: { type: "string" } },
+        },
+      },
+    },
+  },
+  $defs: {
+    styleRef: {
+      type: "string",
+      description: "ID of a value in globalVars.styles",
+    },
+    variableValue: { type: ["string", "number", "boolean"] },
+    styledProperty: { enum: ["textStyle", "fills", "strokes", "effects", "grid"] },
+    fill: {
+      anyOf: [
+        { type: "string", description: "CSS color or gradient" },
+        {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            type: { type: "string" },
+            hex: { type: "string" },
+            rgba: { type: "string" },
+            opacity: { type: "number" },
+            imageRef: { type: "string" },
+            scaleMode: { type: "string" },
+            backgroundSize: { type: "string" },
+            backgroundRepeat: { type: "string" },
+            backgroundPosition: { type: "string" },
+            gradient: { type: "string" },
+            gradientHandlePositions: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["x", "y"],
+                properties: { x: { type: "number" }, y: { type: "number" } },
+              },
+            },
+            gradientStops: {
+              type: "array",
+              items: {
+                type: "object",
+                required: ["position", "color"],
+                properties: {
+                  position: { type: "number" },
+                  color: {
+                    anyOf: [
+                      { type: "string" },
+                      {
+                        type: "object",
+                        required: ["hex", "opacity"],
+                        properties: { hex: { type: "string" }, opacity: { type: "number" } },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+        },
+      ],
+    },
+    textStyle: {
+      type: "object",
+      description: "CSS-like text properties",
+      additionalProperties: false,
+      properties: TEXT_STYLE_PROPERTIES,
+    },
+    layout: {
+      type: "object",
+      description: "Flexbox or grid layout of a node and its placement in its parent",
+      required: ["mode"],
+      additionalProperties: false,
+      properties: {
+        mode: { enum: ["none", "row", "column", "grid"] },
+        justifyContent: { type: "string" },
+        alignItems: { type: "string" },
+        alignContent: { type: "string" },
+        alignSelf: { type: "string" },
+        justifySelf: { type: "string" },
+        wrap: { type: "boolean" },
+        gap: { type: "string" },
+        gridTemplateColumns: { type: "string" },
+        gridTemplateRows: { type: "string" },
+        gridColumn: { type: "string" },
+        gridRow: { type: "string" },
+        locationRelativeToParent: {
+          type: "object",
+          required: ["x", "y"],
+          properties: { x: { type: "number" }, y: { type: "number" } },
+        },
+        offsets: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            top: { type: "string" },
+            right: { type: "string" },
+            bottom: { type: "string" },
+            left: { type: "string" },
+          },
+        },
+        dimensions: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            width: { type: "number" },
+            height: { type: "number" },
+            aspectRatio: { type: "number" },
+            minWidth: { type: "number" },
+            maxWidth: { type: "number" },
+            minHeight: { type: "number" },
+            maxHeight: { type: "number" },
+          },
+        },
+        padding: { type: "string" },
+        sizing: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            horizontal: { enum: ["fixed", "fill", "hug"] },
+            vertical: { enum: ["fixed", "fill", "hug"] },
+          },
+        },
+        overflowScroll: { type: "array", items: { enum: ["x", "y"] } },
+        position: { const: "absolute" },
+        boxSizing: { const: "border-box" },
+      },
+    },
+    stroke: {
+      type: "object",
+      required: ["colors"],
+      additionalProperties: false,
+      properties: {
+        colors: { type: "array", items: { $ref: "#/$defs/fill" } },
+        strokeWeight: { type: "string" },
+        strokeDashes: { type: "array", items: { type: "number" } },
+        strokeWeights: { type: "string" },
+      },
+    },
+    effects: {
+      type: "object",
+      description: "CSS shadows and filters",
+      additionalProperties: false,
+      properties: {
+        boxShadow: { type: "string" },
+        filter: { type: "string" },
+        backdropFilter: { type: "string" },
+      },
+    },
+    node: {
+      type: "object",
+      required: ["id", "name", "type"],
+      additionalProperties: false,
+      properties: {
+        id: { type: "string" },
+        name: { type: "string" },
+        type: { type: "string" },
+        boundingBox: {
+          type: "object",
+          required: ["x", "y", "width", "height"],
+          properties: {
+            x: { type: "number" },
+            y: { type: "number" },
+            width: { type: "number" },
+            height: { type: "number" },
+          },
+        },
+        text: { type: "string" },
+        textStyle: { $ref: "#/$defs/styleRef" },
+        textSegments: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["text"],
+            properties: {
+              ...TEXT_STYLE_PROPERTIES,
+              text: { type: "string" },
+              color: { type: "string" },
+              href: { type: "string" },
+            },
+            additionalProperties: false,
+          },
+        },
+        textLines: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["listStyleType"],
+            properties: {
+              listStyleType: { enum: ["decimal", "disc", "none"] },
+              indent: { type: "number" },
+            },
+          },
+        },
+        fills: { $ref: "#/$defs/styleRef" },
+        styles: {
+          type: "object",
+          description: "Names of the shared styles the node uses, by property",
+          propertyNames: { $ref: "#/$defs/styledProperty" },
+          additionalProperties: { type: "string" },
+        },
+        styleOverrides: { type: "array", items: { $ref: "#/$defs/styledProperty" } },
+        strokes: { $ref: "#/$defs/styleRef" },
+        effects: { $ref: "#/$defs/styleRef" },
+        opacity: { type: "number" },
+        borderRadius: { type: "string" },
+        componentId: { type: "string" },
+        variant: { type: "object", additionalProperties: { type: "string" } },
+        componentProperties: {
+          type: "object",
+          additionalProperties: { type: ["string", "boolean"] },
+        },
+        collapsed: { type: "boolean" },
+        truncated: {
+          type: "object",
+          description: "Children left out to fit the token budget",
+          required: ["childCount", "nodeCount", "summary"],
+          properties: {
+            childCount: { type: "integer" },
+            nodeCount: { type: "integer" },
+            summary: { type: "string" },
+          },
+        },
+        variables: {
+          type: "object",
+          additionalProperties: {
+            anyOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+          },
+        },
+        variableModes: { type: "object", additionalProperties: { type: "string" } },
+        layout: { $ref: "#/$defs/styleRef" },
+        children: { type: "array", items: { $ref: "#/$defs/node" } },
+      },
+    },
+  },
+} as const;
@@ -0,0 +1,541 @@
+import type {
+  DropShadowEffect,
+  GetFileNodesResponse,
+  GradientPaint,
+  GetFileResponse,
+  InnerShadowEffect,
+  Node as FigmaDocumentNode,
+  Paint,
+  RGBA,
+  Style,
+  TypeStyle,
+} from "@figma/rest-api-spec";
+import type { FetchFileOptions, FigmaService } from "~/services/figma.js";
+import { buildCSSGradient, type PaintSize } from "~/transformers/paint.js";
+import {
+  convertColor,
+  generateVarId,
+  isVisible,
+  parsePaint,
+  stableStringify,
+} from "~/utils/common.js";
+import { hasValue } from "~/utils/identity.js";
+import { Logger } from "~/server.js";
+
+export type DesignTokenType = "color" | "gradient" | "typography" | "shadow";
+
+export interface DesignToken {
+  /**
+   * Group path ending in the token name, e.g. ["color", "Primary", "Blue"]
+   */
+  path: string[];
+  type: DesignTokenType;
+  value: unknown;
+  /**
+   * The Figma style the token was read from, if any
+   */
+  styleName?: string;
+  description?: string;
+}
+
+export interface TypographyValue {
+  fontFamily?: string;
+  fontWeight?: number;
+  fontSize?: string;
+  lineHeight?: number;
+  letterSpacing?: string;
+}
+
+export interface ShadowValue {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+  inset?: boolean;
+}
+
+export interface GradientStopValue {
+  color: string;
+  position: number;
+}
+
+export interface GradientValue {
+  gradientType: "linear" | "radial" | "angular" | "diamond";
+  /**
+   * The gradient as CSS, with angles and positions taken from the node it was read from
+   */
+  css: string;
+  stops: GradientStopValue[];
+}
+
+export type ExtractTokenOptions = {
+  /**
+   * Also emit tokens for values not bound to a shared style, named by a hash of
+   * their value.
+   * Defaults to false
+   */
+  includeUnnamed?: boolean;
+  /**
+   * The nodes defining the file's shared styles, by style ID. Styled tokens take their value from
+   * these, so a node overriding its style doesn't change the style's token. Without one, a
+   * style's token takes the value most of its nodes agree on
+   */
+  styleNodes?: Record<string, FigmaDocumentNode>;
+};
+
+/**
+ * Fetch a file, or a single node of it, and collect its design tokens
+ */
+export async function fetchDesignTokens(
+  figmaService: FigmaService,
+  fileKey: string,
+  nodeId?: string,
+  {
+    version,
+    branch,
+    noCache,
+    ...options
+  }: ExtractTokenOptions & Pick<FetchFileOptions, "version" | "branch" | "noCache"> = {},
+): Promise<DesignToken[]> {
+  const fetchOptions = { version, branch, noCache };
+  const response = nodeId
+    ? await figmaService.getRawNode(fileKey, nodeId, undefined, fetchOptions)
+    : await figmaService.getRawFile(fileKey, undefined, fetchOptions);
+  const key = await figmaService.resolveBranchKey(fileKey, branch);
+  const styleNodes = await figmaService.getStyleNodes(
+    key,
+    getResponseContent(response).styles,
+    response,
+    fetchOptions,
+  );
+  return extractDesignTokens(response, { ...options, styleNodes });
+}
+
+function getResponseContent(data: GetFileResponse | GetFileNodesResponse): {
+  nodes: FigmaDocumentNode[];
+  styles: Record<string, Style>;
+} {
+  if ("document" in data) {
+    return { nodes: data.document.children, styles: data.styles };
+  }
+  return {
+    nodes: Object.values(data.nodes).map((n) => n.document),
+    styles: Object.assign({}, ...Object.values(data.nodes).map((n) => n.styles)),
+  };
+}
+
+/**
+ * Collect color, gradient, typography and shadow tokens from a Figma file or node response.
+ * Values bound to shared styles are named after the style, e.g. "Primary/Blue"
+ */
+export function extractDesignTokens(
+  data: GetFileResponse | GetFileNodesResponse,
+  { includeUnnamed = false, styleNodes = {} }: ExtractTokenOptions = {},
+): DesignToken[] {
+  const { nodes, styles } = getResponseContent(data);
+
+  // Every value seen for a token, with how many nodes use it. Styles are told apart by their key,
+  // since two styles can share a name
+  const candidates = new Map<string, { token: DesignToken; count: number }[]>();
+  const addToken = (token: DesignToken, style?: Style) => {
+    const key = `${token.path.join("/")}|${style?.key ?? ""}`;
+    const values = candidates.get(key) ?? [];
+    candidates.set(key, values);
+    const value = stableStringify(token.value);
+    const seen = values.find((candidate) => stableStringify(candidate.token.value) === value);
+    if (seen) seen.count++;
+    else values.push({ token, count: 1 });
+  };
+
+  const visit = (n: FigmaDocumentNode) => {
+    if (!isVisible(n)) return;
+    const nodeStyles = hasValue("styles", n) ? (n.styles as Record<string, string>) : {};
+    // The style a property is bound to, and the node to read the value from: the style's own
+    // node if known, since the node at hand may override it
+    const styleFor = (...keys: string[]) => {
+      const id = keys.map((key) => nodeStyles[key]).find((id) => id && styles[id]);
+      return { style: id ? styles[id] : undefined, source: (id && styleNodes[id]) || n };
+    };
+    const sizeOf = (node: FigmaDocumentNode) =>
+      hasValue("absoluteBoundingBox", node) ? (node.absoluteBoundingBox as PaintSize) : undefined;
+
+    if (hasValue("fills", n) && Array.isArray(n.fills)) {
+      const { style, source } = styleFor("fill", "fills");
+      if (hasValue("fills", source) && Array.isArray(source.fills)) {
+        addPaintTokens(source.fills, style, "fill", sizeOf(source), includeUnnamed, addToken);
+      }
+    }
+    if (hasValue("strokes", n) && Array.isArray(n.strokes)) {
+      const { style, source } = styleFor("stroke", "strokes");
+      if (hasValue("strokes", source) && Array.isArray(source.strokes)) {
+        addPaintTokens(source.strokes, style, "stroke", sizeOf(source), includeUnnamed, addToken);
+      }
+    }
+
+    if (hasValue("style", n) && n.type === "TEXT") {
+      const { style, source } = styleFor("text");
+      if ((style || includeUnnamed) && hasValue("style", source)) {
+        const value = buildTypographyValue(source.style as TypeStyle);
+        addToken(
+          {
+            path: ["typography", ...tokenPath(style, "style", value)],
+            type: "typography",
+            value,
+            styleName: style?.name,
+            description: style?.description || undefined,
+          },
+          style,
+        );
+      }
+    }
+
+    const { style: effectStyle, source: effectSource } = styleFor("effect", "effects");
+    if (hasValue("effects", effectSource) && Array.isArray(effectSource.effects)) {
+      const shadows = effectSource.effects
+        .filter((e): e is DropShadowEffect | InnerShadowEffect =>
+          ["DROP_SHADOW", "INNER_SHADOW"].includes(e.type as string),
+        )
+        .filter((e) => e.visible)
+        .map(buildShadowValue);
+      if (shadows.length && (effectStyle || includeUnnamed)) {
+        const value = shadows.length === 1 ? shadows[0] : shadows;
+        addToken(
+          {
+            path: ["shadow", ...tokenPath(effectStyle, "effect", value)],
+            type: "shadow",
+            value,
+            styleName: effectStyle?.name,
+            description: effectStyle?.description || undefined,
+          },
+          effectStyle,
+        );
+      }
+    }
+
+    if (hasValue("children", n)) {
+      n.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+
+  const tokens = [...candidates.values()]
+    .map((values) => values.reduce((best, value) => (value.count > best.count ? value : best)))
+    .map(({ token }) => token);
+  // A style named like another one keeps its own token, numbered the way colliding CSS names are
+  const names = getUniqueNames(tokens, ({ path }) => path.join("/"));
+  return tokens
+    .map((token) => ({ ...token, path: names.get(token)!.split("/") }))
+    .sort((a, b) => a.path.join("/").localeCompare(b.path.join("/")));
+}
+
+function addPaintTokens(
+  paints: Paint[],
+  style: Style | undefined,
+  prefix: string,
+  size: PaintSize | undefined,
+  includeUnnamed: boolean,
+  addToken: (token: DesignToken, style?: Style) => void,
+): void {
+  const visible = paints.filter(isVisible);
+  // Only a single solid or gradient paint maps cleanly onto one token
+  if (visible.length !== 1 || (!style && !includeUnnamed)) return;
+  const [paint] = visible;
+
+  if (paint.type === "SOLID") {
+    const value = toHex(paint.color, paint.opacity);
+    addToken(
+      {
+        path: ["color", ...tokenPath(style, prefix, [parsePaint(paint)])],
+        type: "color",
+        value,
+        styleName: style?.name,
+        description: style?.description || undefined,
+      },
+      style,
+    );
+  } else if (paint.type.startsWith("GRADIENT_") && "gradientStops" in paint) {
+    const value: GradientValue = {
+      gradientType: paint.type
+        .slice("GRADIENT_".length)
+        .toLowerCase() as GradientValue["gradientType"],
+      css: buildCSSGradient(paint as GradientPaint, size),
+      stops: paint.gradientStops.map(({ color, position }) => ({
+        color: toHex(color, paint.opacity),
+        position,
+      })),
+    };
+    addToken(
+      {
+        path: ["gradient", ...tokenPath(style, prefix, [parsePaint(paint)])],
+        type: "gradient",
+        value,
+        styleName: style?.name,
+        description: style?.description || undefined,
+      },
+      style,
+    );
+  }
+}
+
+/**
+ * Split a style name into group segments, or fall back to a hash of the value
+ */
+function tokenPath(style: Style | undefined, prefix: string, value: unknown): string[] {
+  if (style) {
+    const segments = style.name
+      .split("/")
+      .map((segment) => segment.trim())
+      .filter(Boolean);
+    if (segments.length) return segments;
+  }
+  return [generateVarId(prefix, value)];
+}
+
+function toHex(color: RGBA, opacity = 1): string {
+  const { hex, opacity: alpha } = convertColor(color, opacity);
+  if (alpha === 1) return hex;
+  const alphaHex = Math.round(alpha * 255)
+    .toString(16)
+    .padStart(2, "0")
+    .toUpperCase();
+  return `${hex}${alphaHex}`;
+}
+
+function buildTypographyValue(style: TypeStyle): TypographyValue {
+  return {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: style.fontSize !== undefined ? `${style.fontSize}px` : undefined,
+    lineHeight:
+      style.lineHeightPx && style.fontSize
+        ? Math.round((style.lineHeightPx / style.fontSize) * 1000) / 1000
+        : undefined,
+    letterSpacing:
+      style.letterSpacing && style.fontSize
+        ? `${Math.round((style.letterSpacing / style.fontSize) * 1000) / 1000}em`
+        : undefined,
+  };
+}
+
+function buildShadowValue(effect: DropShadowEffect | InnerShadowEffect): ShadowValue {
+  return {
+    color: toHex(effect.color),
+    offsetX: `${effect.offset.x}px`,
+    offsetY: `${effect.offset.y}px`,
+    blur: `${effect.radius}px`,
+    spread: `${effect.spread ?? 0}px`,
+    ...(effect.type === "INNER_SHADOW" ? { inset: true } : {}),
+  };
+}
+
+// -------------------- OUTPUT FORMATS --------------------
+
+export interface DTCGToken {
+  $type: DesignTokenType;
+  $value: unknown;
+  $description?: string;
+  $extensions?: {
+    "com.figma": {
+      styleName?: string;
+      gradientType?: GradientValue["gradientType"];
+      css?: string;
+    };
+  };
+}
+
+export interface DTCGGroup {
+  [name: string]: DTCGGroup | DTCGToken;
+}
+
+/**
+ * W3C Design Tokens Community Group format: nested groups with $type/$value leaves. A token
+ * whose name is also a group, like "Primary" next to "Primary/Blue", becomes the group's $root
+ * token. Gradients keep their type and CSS in the com.figma extension
+ */
+export function formatTokensAsDTCG(tokens: DesignToken[]): DTCGGroup {
+  const groupPaths = new Set(
+    tokens.flatMap(({ path }) => path.slice(1, -1).map((_, i) => path.slice(0, i + 2).join("/"))),
+  );
+
+  const root: DTCGGroup = {};
+  for (const token of tokens) {
+    const path = groupPaths.has(token.path.join("/")) ? [...token.path, "$root"] : token.path;
+    let group = root;
+    for (const segment of path.slice(0, -1)) {
+      group = (group[segment] ??= {}) as DTCGGroup;
+    }
+
+    const gradient = token.type === "gradient" ? (token.value as GradientValue) : undefined;
+    const figma = {
+      ...(token.styleName ? { styleName: token.styleName } : {}),
+      ...(gradient ? { gradientType: gradient.gradientType, css: gradient.css } : {}),
+    };
+    group[path[path.length - 1]] = {
+      $type: token.type,
+      $value: gradient ? gradient.stops : token.value,
+      ...(token.description ? { $description: token.description } : {}),
+      ...(Object.keys(figma).length ? { $extensions: { "com.figma": figma } } : {}),
+    };
+  }
+  return root;
+}
+
+/**
+ * CSS custom properties on :root. Typography tokens expand into one property per field
+ */
+export function formatTokensAsCSS(tokens: DesignToken[]): string {
+  const lines: string[] = [];
+  const names = getUniqueNames(tokens, ({ path }) => toKebabName(path));
+  for (const token of tokens) {
+    const name = `--${names.get(token)}`;
+    switch (token.type) {
+      case "color":
+        lines.push(`  ${name}: ${token.value};`);
+        break;
+      case "gradient":
+        lines.push(`  ${name}: ${(token.value as GradientValue).css};`);
+        break;
+      case "shadow":
+        lines.push(`  ${name}: ${toCSSShadow(token.value as ShadowValue | ShadowValue[])};`);
+        break;
+      case "typography":
+        for (const [field, value] of Object.entries(token.value as TypographyValue)) {
+          if (value === undefined) continue;
+          lines.push(`  ${name}-${toKebabCase(field)}: ${value};`);
+        }
+        break;
+    }
+  }
+  return `:root {\n${lines.join("\n")}\n}\n`;
+}
+
+/**
+ * A Tailwind config module extending the theme with the tokens
+ */
+export function formatTokensAsTailwind(tokens: DesignToken[]): string {
+  const extend: Record<string, Record<string, unknown>> = {};
+  const add = (section: string, key: string, value: unknown) => {
+    extend[section] ??= {};
+    extend[section][key] = value;
+  };
+
+  // Drop the type group, Tailwind already sections the theme by type, so names only need to be
+  // unique within a type
+  const keys = new Map(
+    [...new Set(tokens.map(({ type }) => type))].flatMap((type) => [
+      ...getUniqueNames(
+        tokens.filter((token) => token.type === type),
+        ({ path }) => toKebabName(path.slice(1)),
+      ),
+    ]),
+  );
+  for (const token of tokens) {
+    const key = keys.get(token)!;
+    switch (token.type) {
+      case "color":
+        add("colors", key, token.value);
+        break;
+      case "gradient":
+        add("backgroundImage", key, (token.value as GradientValue).css);
+        break;
+      case "shadow":
+        add("boxShadow", key, toCSSShadow(token.value as ShadowValue | ShadowValue[]));
+        break;
+      case "typography": {
+        const { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing } =
+          token.value as TypographyValue;
+        if (fontFamily) add("fontFamily", key, [fontFamily]);
+        if (fontSize) {
+          const options = Object.fromEntries(
+            Object.entries({
+              lineHeight: lineHeight !== undefined ? String(lineHeight) : undefined,
+              letterSpacing,
+              fontWeight: fontWeight !== undefined ? String(fontWeight) : undefined,
+            }).filter(([, value]) => value !== undefined),
+          );
+          add("fontSize", key, [fontSize, options]);
+        }
+        break;
+      }
+    }
+  }
+
+  return `/** @type {import('tailwindcss').Config} */\nmodule.exports = ${JSON.stringify(
+    { theme: { extend } },
+    null,
+    2,
+  )};\n`;
+}
+
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function toKebabName(path: string[]): string {
+  return path.map(toKebabCase).filter(Boolean).join("-");
+}
+
+/**
+ * Name each token, numbering names that other tokens already took, since different style names
+ * like "Primary/Blue" and "Primary Blue" can map to the same kebab-case name
+ */
+function getUniqueNames(
+  tokens: DesignToken[],
+  getName: (token: DesignToken) => string,
+): Map<DesignToken, string> {
+  const names = new Map<DesignToken, string>();
+  const taken = new Set<string>();
+  for (const token of tokens) {
+    const name = getName(token);
+    let unique = name;
+    for (let i = 2; taken.has(unique); i++) unique = `${name}-${i}`;
+    if (unique !== name) {
+      Logger.log(`Design token ${token.path.join("/")} is exported as ${unique}, ${name} is taken`);
+    }
+    taken.add(unique);
+    names.set(token, unique);
+  }
+  return names;
+}
+
+function toCSSShadow(value: ShadowValue | ShadowValue[]): string {
+  return (Array.isArray(value) ? value : [value])
+    .map(
+      ({ inset, offsetX, offsetY, blur, spread, color }) =>
+        `${inset ? "inset " : ""}${offsetX} ${offsetY} ${blur} ${spread} ${color}`,
+    )
+    .join(", ");
+}
+
+export type DesignTokenFormat = "dtcg" | "css" | "tailwind";
+
+export const DESIGN_TOKEN_FILES: Record<DesignTokenFormat, string> = {
+  dtcg: "tokens.json",
+  css: "tokens.css",
+  tailwind: "tailwind.tokens.js",
+};
+
+/**
+ * Render tokens in the requested formats, keyed by the file name each format is written to
+ */
+export function renderDesignTokens(
+  tokens: DesignToken[],
+  formats: DesignTokenFormat[],
+): Record<string, string> {
+  const files: Record<string, string> = {};
+  for (const format of formats) {
+    const content =
+      format === "dtcg"
+        ? `${JSON.stringify(formatTokensAsDTCG(tokens), null, 2)}\n`
+        : format === "css"
+          ? formatTokensAsCSS(tokens)
+          : formatTokensAsTailwind(tokens);
+    files[DESIGN_TOKEN_FILES[format]] = content;
+  }
+  return files;
+}
@@ -0,0 +1,248 @@
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { LRUCache } from "~/utils/lru-cache.js";
+import { Logger } from "~/server.js";
+
+export interface FigmaCacheConfig {
+  enabled: boolean;
+  /**
+   * If set, responses are also persisted here and survive restarts
+   */
+  dir?: string;
+  /**
+   * Number of responses kept in memory. Defaults to 50
+   */
+  maxEntries?: number;
+  /**
+   * Memory budget for cached responses in megabytes, measured as the length of their JSON.
+   * Defaults to 200
+   */
+  maxMemoryMB?: number;
+  /**
+   * Disk budget for persisted responses in megabytes. Least recently used files are removed
+   * beyond it. Defaults to 1024
+   */
+  maxDiskMB?: number;
+  /**
+   * For this many seconds after a response was stored or revalidated it is served without
+   * checking the file's current version. Defaults to 30
+   */
+  freshForSeconds?: number;
+}
+
+export interface FileVersion {
+  version: string;
+  lastModified: string;
+}
+
+interface StoredEntry<T> extends FileVersion {
+  response: T;
+  validatedAt: number;
+}
+
+interface CacheEntry<T> extends StoredEntry<T> {
+  /**
+   * Length of the entry's JSON, used to keep the memory cache within its budget
+   */
+  size: number;
+}
+
+export interface FigmaCacheKey {
+  fileKey: string;
+  /**
+   * The endpoint read, for responses of other endpoints than files and nodes, e.g. "styles"
+   */
+  resource?: string;
+  nodeIds?: string[];
+  depth?: number;
+  /**
+   * Set when a specific version from the file's history was requested
+   */
+  version?: string;
+  /**
+   * Identifies the credentials the response was read with
+   */
+  scope?: string;
+}
+
+const DEFAULT_MAX_ENTRIES = 50;
+const DEFAULT_MAX_MEMORY_MB = 200;
+const DEFAULT_MAX_DISK_MB = 1024;
+const DEFAULT_FRESH_FOR_SECONDS = 30;
+
+/**
+ * Stores raw Figma file and node responses together with the file version they were read at
+ */
+export class FigmaResponseCache {
+  private readonly memory: LRUCache<string, CacheEntry<unknown>>;
+  private readonly dir?: string;
+  private readonly maxDiskBytes: number;
+  private readonly freshForMs: number;
+
+  constructor({
+    dir,
+    maxEntries,
+    maxMemoryMB,
+    maxDiskMB,
+    freshForSeconds,
+  }: Omit<FigmaCacheConfig, "enabled"> = {}) {
+    this.memory = new LRUCache(maxEntries ?? DEFAULT_MAX_ENTRIES, {
+      maxSize: (maxMemoryMB ?? DEFAULT_MAX_MEMORY_MB) * 1024 * 1024,
+      sizeOf: (entry) => entry.size,
+    });
+    this.dir = dir;
+    this.maxDiskBytes = (maxDiskMB ?? DEFAULT_MAX_DISK_MB) * 1024 * 1024;
+    this.freshForMs = (freshForSeconds ?? DEFAULT_FRESH_FOR_SECONDS) * 1000;
+  }
+
+  /**
+   * Return the cached response for a request, validating it against the file's current version
+   * once it is older than the freshness window
+   * @param key - What was requested
+   * @param getCurrentVersion - Looks up the file's current version, only called when needed. If
+   * it fails the entry is treated as missing, so the caller reads the file itself
+   */
+  async get<T>(
+    key: FigmaCacheKey,
+    getCurrentVersion: () => Promise<FileVersion>,
+  ): Promise<T | undefined> {
+    const id = serializeKey(key);
+    const entry = (this.memory.get(id) ?? this.readFromDisk(id)) as CacheEntry<T> | undefined;
+    if (!entry) return undefined;
+
+    // A saved version never changes, so only responses for the current state need checking
+    if (!key.version && Date.now() - entry.validatedAt > this.freshForMs) {
+      let current: FileVersion;
+      try {
+        current = await getCurrentVersion();
+      } catch (error) {
+        Logger.error(`Failed to revalidate cached response for ${key.fileKey}:`, error);
+        return undefined;
+      }
+      if (current.version !== entry.version || current.lastModified !== entry.lastModified) {
+        Logger.log(`Cached response for ${key.fileKey} is stale (version ${entry.version})`);
+        this.delete(id);
+        return undefined;
+      }
+      entry.validatedAt = Date.now();
+    }
+
+    this.memory.set(id, entry);
+    return entry.response;
+  }
+
+  set<T extends FileVersion>(key: FigmaCacheKey, response: T): void;
+  /**
+   * @param readAt - The file version a response that carries no version was read at
+   */
+  set<T>(key: FigmaCacheKey, response: T, readAt: FileVersion): void;
+  set(key: FigmaCacheKey, response: unknown, readAt?: FileVersion): void {
+    const id = serializeKey(key);
+    const { version, lastModified } = readAt ?? (response as FileVersion);
+    const stored: StoredEntry<unknown> = {
+      version,
+      lastModified,
+      response,
+      validatedAt: Date.now(),
+    };
+    const json = JSON.stringify(stored);
+    this.memory.set(id, { ...stored, size: json.length });
+    this.writeToDisk(id, json);
+  }
+
+  /**
+   * Drop every cached response for a file
+   */
+  invalidateFile(fileKey: string): void {
+    for (const id of [...this.memory.keys()]) {
+      if (id.startsWith(`${fileKey}|`)) this.delete(id);
+    }
+    if (!this.dir || !fs.existsSync(this.dir)) return;
+    const fileName = new RegExp(`^${toFileNamePart(fileKey)}-[0-9a-f]{32}\\.json$`);
+    for (const file of fs.readdirSync(this.dir)) {
+      if (fileName.test(file)) fs.rmSync(path.join(this.dir, file), { force: true });
+    }
+  }
+
+  private delete(id: string): void {
+    this.memory.delete(id);
+    if (this.dir) fs.rmSync(this.getDiskPath(id), { force: true });
+  }
+
+  private getDiskPath(id: string): string {
+    const fileKey = id.slice(0, id.indexOf("|"));
+    const hash = createHash("sha256").update(id).digest("hex").slice(0, 32);
+    return path.join(this.dir!, `${toFileNamePart(fileKey)}-${hash}.json`);
+  }
+
+  private readFromDisk(id: string): CacheEntry<unknown> | undefined {
+    if (!this.dir) return undefined;
+    try {
+      const filePath = this.getDiskPath(id);
+      const json = fs.readFileSync(filePath, "utf-8");
+      // The modification time doubles as the last access, which decides what pruneDisk removes
+      const now = new Date();
+      fs.utimesSync(filePath, now, now);
+      return { ...JSON.parse(json), size: json.length };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private writeToDisk(id: string, json: string): void {
+    if (!this.dir) return;
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      const filePath = this.getDiskPath(id);
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, json);
+      fs.renameSync(tmpPath, filePath);
+      this.pruneDisk();
+    } catch (error) {
+      Logger.error("Failed to write Figma cache:", error);
+    }
+  }
+
+  /**
+   * Remove the least recently used files until the cache directory fits its disk budget
+   */
+  private pruneDisk(): void {
+    const files = fs
+      .readdirSync(this.dir!)
+      .filter((file) => /-[0-9a-f]{32}\.json$/.test(file))
+      .map((file) => {
+        const filePath = path.join(this.dir!, file);
+        const { size, mtimeMs } = fs.statSync(filePath);
+        return { filePath, size, mtimeMs };
+      })
+      .sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (total <= this.maxDiskBytes) break;
+      fs.rmSync(file.filePath, { force: true });
+      total -= file.size;
+    }
+  }
+}
+
+function serializeKey({
+  fileKey,
+  resource,
+  nodeIds,
+  depth,
+  version,
+  scope,
+}: FigmaCacheKey): string {
+  const ids = `${resource ? `${resource}:` : ""}${nodeIds ? [...nodeIds].sort().join(",") : "*"}`;
+  return `${fileKey}|${ids}|${depth ?? "full"}|${version ?? "current"}${scope ? `|${scope}` : ""}`;
+}
+
+/**
+ * File keys come from user input, so only keep characters that are safe in a file name. The
+ * hash of the full key keeps sanitized names from colliding
+ */
+function toFileNamePart(fileKey: string): string {
+  return fileKey.replace(/[^A-Za-z0-9_-]/g, "_");
+}
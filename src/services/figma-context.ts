@@ -0,0 +1,280 @@
+import { findImageNodeIds, isVisible } from "~/utils/common.js";
+import { Logger } from "~/server.js";
+import type { FetchFileOptions, FigmaService } from "./figma.js";
+import type { VisionProvider } from "./vision.js";
+
+type BackgroundState = "visible" | "dimmer" | "dimmed";
+
+export interface ContextHierarchyNode {
+  name: string;
+  type: string;
+  characters: string;
+  position: any;
+  fills: any[];
+  strokes: any[];
+  style: any;
+  effects: any[];
+  isBackground: BackgroundState;
+  image_url?: string;
+  vision_text?: string;
+  children?: ContextHierarchyNode[];
+}
+
+export interface FigmaContext {
+  name: string;
+  target_text: string;
+  context_summary: string;
+  node_info: { path: string[] };
+  position: any;
+  fills: any[];
+  strokes: any[];
+  style: any;
+  effects: any[];
+  explanation: string;
+  hierarchy: ContextHierarchyNode;
+}
+
+/**
+ * Builds the enriched node context (text, summary, dimmer detection and vision-annotated
+ * hierarchy) shared by the /context route and the get_figma_context tool
+ */
+export class FigmaContextService {
+  private readonly figmaService: FigmaService;
+  private readonly visionProvider: VisionProvider;
+
+  constructor(figmaService: FigmaService, visionProvider: VisionProvider) {
+    this.figmaService = figmaService;
+    this.visionProvider = visionProvider;
+  }
+
+  /**
+   * @returns The context, or null if the node does not exist in the file
+   */
+  async getContext(
+    fileKey: string,
+    nodeId: string,
+    options: FetchFileOptions = {},
+  ): Promise<FigmaContext | null> {
+    const figmaResponse = await this.figmaService.getRawNode(fileKey, nodeId, undefined, options);
+
+    const node: any = figmaResponse.nodes?.[nodeId]?.document;
+    if (!node) {
+      return null;
+    }
+
+    const imageNodeIds = findImageNodeIds(node);
+    const imageUrls = await this.figmaService.getImageUrls(fileKey, imageNodeIds, "png", options);
+
+    const texts = findText(node);
+    const targetText = texts.join("\n");
+    const nodeInfo = { path: [node?.name || "이름 없음"] };
+    const contextSummary =
+      `이 노드는 ${node?.type} 타입이며 이름은 "${node?.name}"입니다.
+` +
+      `텍스트: ${targetText.substring(0, 40)}...
+` +
+      `버튼 위치: ${JSON.stringify(node?.absoluteBoundingBox || {})}
+` +
+      `색상: ${JSON.stringify(node?.fills || [])}
+` +
+      `스타일: ${JSON.stringify(node?.style || {})}`;
+
+    const resolvedPosition = node?.absoluteBoundingBox || findFirstPosition(node);
+    const position = resolvedPosition || "❌ 위치 정보 없음";
+
+    const explanation =
+      `이 오브젝트는 '${node?.name}'라는 이름을 가진 ${node?.type} 타입입니다.
+` +
+      `위치는 ${resolvedPosition ? `x: ${resolvedPosition.x}, y: ${resolvedPosition.y}` : "확인되지 않음"}이며, ` +
+      `배경 색상은 ${node?.fills?.[0]?.color ? JSON.stringify(node.fills[0].color) : "제공되지 않음"}입니다.
+` +
+      `텍스트는 '${targetText.substring(0, 30)}...'이며, 시각 강조 스타일은 ${node?.style ? JSON.stringify(node.style) : "없음"}입니다.`;
+
+    const hierarchy = await this.buildHierarchy(node, imageUrls);
+    this.visionProvider.flush?.();
+
+    return {
+      name: node?.name || "이름 없음",
+      target_text: targetText,
+      context_summary: contextSummary,
+      node_info: nodeInfo,
+      position: position,
+      fills: node?.fills || [],
+      strokes: node?.strokes || [],
+      style: node?.style || {},
+      effects: node?.effects || [],
+      explanation: explanation,
+      hierarchy: hierarchy,
+    };
+  }
+
+  private async buildHierarchy(
+    node: any,
+    imageUrls: Record<string, string>,
+    frameWidth?: number,
+    dimmerFound: boolean = false, // 이전에 dimmer를 발견했는지 여부
+  ): Promise<ContextHierarchyNode> {
+    // 최상위 호출인 경우 frame width 저장
+    if (frameWidth === undefined) {
+      const frame = findParentFrame(node);
+      if (frame?.absoluteBoundingBox) {
+        frameWidth = frame.absoluteBoundingBox.width;
+        Logger.log(`\n[프레임 정보]
+        - 프레임 이름: ${frame.name}
+        - 프레임 width: ${frameWidth}px\n`);
+      }
+    }
+
+    // 현재 노드가 dimmer인지 판단
+    const isCurrentNodeDimmer = determineIfBackground(node, frameWidth);
+
+    // children 먼저 처리 (레이어 순서대로)
+    const children: ContextHierarchyNode[] = [];
+    let hasDimmerInChildren = false;
+
+    if (node.children) {
+      // 정방향으로 처리 (인덱스 0이 가장 아래 레이어)
+      for (let i = 0; i < node.children.length; i++) {
+        const child = node.children[i];
+        if (!isVisible(child)) continue;
+
+        // 이전에 dimmer를 발견했거나, 현재까지 처리한 children에서 dimmer를 발견했으면
+        // 그 이후의 레이어들은 모두 dimmed
+        const childResult = await this.buildHierarchy(
+          child,
+          imageUrls,
+          frameWidth,
+          dimmerFound || hasDimmerInChildren,
+        );
+
+        // child가 dimmer인지 체크하고 표시
+        if (childResult.isBackground === "dimmer") {
+          hasDimmerInChildren = true;
+        }
+
+        children.push(childResult);
+      }
+    }
+
+    // 현재 노드의 상태 결정
+    let backgroundState: BackgroundState = "visible";
+
+    if (isCurrentNodeDimmer) {
+      backgroundState = "dimmer";
+      Logger.log(`✅ Dimmer 오브젝트 발견!
+      - 이름: ${node.name}
+      - Width: ${node.absoluteBoundingBox?.width}px
+      - Opacity: ${(node.opacity !== undefined ? node.opacity : 1) * 100}%`);
+    } else if (dimmerFound || hasDimmerInChildren) {
+      // 상위에서 dimmer를 발견했거나, children에서 dimmer를 발견했으면 dimmed
+      backgroundState = "dimmed";
+      Logger.log(`🔍 Dimmed 오브젝트 설정:
+      - 이름: ${node.name}
+      - 상위 Dimmer 존재: ${dimmerFound}
+      - Children에서 Dimmer 발견: ${hasDimmerInChildren}`);
+    }
+
+    const simplified: ContextHierarchyNode = {
+      name: node.name || "이름 없음",
+      type: node.type,
+      characters: node.characters || "",
+      position: node.absoluteBoundingBox || null,
+      fills: node.fills || [],
+      strokes: node.strokes || [],
+      style: node.style || {},
+      effects: node.effects || [],
+      isBackground: backgroundState,
+    };
+
+    if (imageUrls[node.id]) {
+      simplified.image_url = imageUrls[node.id];
+      try {
+        const visionText = await this.visionProvider.analyzeImage(imageUrls[node.id]);
+        if (visionText !== undefined) {
+          simplified.vision_text = visionText;
+        }
+      } catch (e) {
+        simplified.vision_text =
+          "이미지 분석 실패: " + (e instanceof Error ? e.message : String(e));
+      }
+    }
+
+    if (children.length > 0) {
+      simplified.children = children;
+    }
+
+    return simplified;
+  }
+}
+
+function findText(n: any): string[] {
+  if (n.type === "TEXT" && n.characters) return [n.characters];
+  if (n.children) return n.children.flatMap(findText);
+  return [];
+}
+
+function findFirstPosition(n: any): any {
+  if (n.absoluteBoundingBox) return n.absoluteBoundingBox;
+  if (n.children) {
+    for (const child of n.children) {
+      const found = findFirstPosition(child);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+// 현재 노드가 속한 프레임을 찾는 함수
+function findParentFrame(node: any): any {
+  // 자신이 프레임이면 반환
+  if (node.type === "FRAME") {
+    return node;
+  }
+
+  // 부모가 없으면 null 반환
+  if (!node.parent) {
+    return null;
+  }
+
+  // 부모로 올라가면서 프레임 찾기
+  return findParentFrame(node.parent);
+}
+
+// Background 여부를 판단하는 함수
+function determineIfBackground(node: any, frameWidth?: number): boolean {
+  if (!node.absoluteBoundingBox || !frameWidth) {
+    return false;
+  }
+
+  const { width, height } = node.absoluteBoundingBox;
+  const opacity = node.opacity !== undefined ? node.opacity : 1;
+  const name = (node.name || "").toLowerCase();
+
+  // 필수 조건 체크
+  const isWidthSufficient = width >= frameWidth;
+  const isHeightSufficient = height >= 100;
+
+  // 필수 조건이 충족되지 않으면 바로 false 반환
+  if (!isWidthSufficient || !isHeightSufficient) {
+    return false;
+  }
+
+  // 추가 조건 체크
+  const isOpacityLow = opacity <= 0.6;
+  const hasDimmInName = name.includes("dimm");
+
+  // 딤드 오브젝트 발견 시에만 로그 출력
+  if (isOpacityLow || hasDimmInName) {
+    Logger.log(`✅ 딤드 오브젝트 발견!
+    - 이름: ${name}
+    - Width: ${width}px
+    - Opacity: ${opacity * 100}%
+    - 조건 만족:
+      * Width 충분: ${isWidthSufficient ? "✓" : "✗"} (${width}px >= ${frameWidth}px)
+      * Height 충분: ${isHeightSufficient ? "✓" : "✗"} (${height}px >= 100px)
+      * Opacity 60% 이하: ${isOpacityLow ? "✓" : "✗"} (${opacity * 100}%)
+      * 이름에 'dimm' 포함: ${hasDimmInName ? "✓" : "✗"}`);
+  }
+
+  return isOpacityLow || hasDimmInName;
+}
@@ -1,19 +1,114 @@
 import fs from "fs";
-import { parseFigmaResponse, SimplifiedDesign } from "./simplify-node-response.js";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import yaml from "js-yaml";
+import { parseFigmaResponse, ParseOptions, SimplifiedDesign } from "./simplify-node-response.js";
 import type {
+  GetCommentsResponse,
   GetImagesResponse,
   GetFileResponse,
   GetFileNodesResponse,
+  GetFileStylesResponse,
+  GetFileVersionsResponse,
   GetImageFillsResponse,
+  GetLocalVariablesResponse,
+  GetPublishedVariablesResponse,
+  Node as FigmaDocumentNode,
+  PostCommentRequestBody,
+  PostCommentResponse,
+  Component,
+  Style,
 } from "@figma/rest-api-spec";
 import { downloadFigmaImage } from "~/utils/common.js";
 import { Logger } from "~/server.js";
+import type { FigmaCacheKey, FigmaResponseCache, FileVersion } from "./figma-cache.js";
+import { FigmaVariables, hasBoundVariables, mergeVariables } from "~/transformers/variables.js";
 
-export interface FigmaError {
-  status: number;
-  err: string;
+export type FigmaApiErrorKind = "auth" | "not_found" | "rate_limit" | "server" | "request";
+
+/**
+ * A non-2xx response from the Figma REST API, classified so callers can tell the agent what to fix
+ */
+export class FigmaApiError extends Error {
+  readonly status: number;
+  readonly kind: FigmaApiErrorKind;
+  readonly endpoint: string;
+  /**
+   * Seconds Figma asked us to wait before retrying, if it sent a Retry-After header
+   */
+  readonly retryAfter?: number;
+
+  constructor(status: number, endpoint: string, detail: string, retryAfter?: number) {
+    const kind = classifyStatus(status);
+    super(`${describeErrorKind(kind, status)} (${status} on ${endpoint}: ${detail})`);
+    this.name = "FigmaApiError";
+    this.status = status;
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.retryAfter = retryAfter;
+  }
+
+  get retryable(): boolean {
+    return this.kind === "rate_limit" || this.kind === "server";
+  }
+}
+
+function classifyStatus(status: number): FigmaApiErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 404) return "not_found";
+  if (status === 429) return "rate_limit";
+  if (status >= 500) return "server";
+  return "request";
+}
+
+function describeErrorKind(kind: FigmaApiErrorKind, status: number): string {
+  switch (kind) {
+    case "auth":
+      return status === 401
+        ? "The Figma token is invalid or expired"
+        : "The Figma token lacks access to this file, or is missing the required scope";
+    case "not_found":
+      return "The Figma file or node was not found. Check the file key and node ID";
+    case "rate_limit":
+      return "Figma rate limit exceeded. Wait before retrying";
+    case "server":
+      return "Figma API is temporarily unavailable";
+    case "request":
+      return "Figma rejected the request";
+  }
 }
 
+export type RetryOptions = {
+  /**
+   * Retries after the first attempt for rate limits, 5xx responses and network errors. Defaults to 3
+   */
+  maxRetries?: number;
+  /**
+   * Base delay for exponential backoff in milliseconds. Defaults to 500
+   */
+  baseDelayMs?: number;
+  /**
+   * Longest we are willing to wait before a single retry, including Retry-After. Defaults to 60000
+   */
+  maxDelayMs?: number;
+};
+
+/**
+ * Credentials for the Figma REST API. Personal access tokens are sent as X-Figma-Token, OAuth2
+ * access tokens as Authorization: Bearer
+ */
+export type FigmaAuth = {
+  type: "personal" | "oauth";
+  token: string;
+};
+
+export type FigmaServiceOptions = {
+  cache?: FigmaResponseCache | null;
+  retry?: RetryOptions;
+};
+
+export type ImageFormat = "png" | "svg" | "jpg" | "pdf";
+
 type FetchImageParams = {
   /**
    * The Node in Figma that will either be rendered or have its background image downloaded
@@ -26,121 +121,525 @@ type FetchImageParams = {
   /**
    * The file mimetype for the image
    */
-  fileType: "png" | "svg";
+  fileType: ImageFormat;
 };
 
-type FetchImageFillParams = Omit<FetchImageParams, "fileType"> & {
+type FetchImageFillParams = Omit<FetchImageParams, "fileType" | "fileName"> & {
   /**
    * Required to grab the background image when an image is used as a fill
    */
   imageRef: string;
+  /**
+   * The local file name to save the image. Defaults to the imageRef with the extension of the
+   * image's type, since fills keep the format they were uploaded in
+   */
+  fileName?: string;
+};
+
+export type FetchImageOptions = Pick<FetchFileOptions, "version" | "branch"> & {
+  /**
+   * Render scale for raster formats (png, jpg). Figma accepts 0.01 to 4. Defaults to 2
+   */
+  scale?: number;
+  /**
+   * Downloader shared with the other calls saving images for the same request, so they don't
+   * write the same file. Defaults to a new one saving to localPath
+   */
+  downloader?: ImageDownloader;
+};
+
+export type FetchFileOptions = {
+  /**
+   * Skip reading from the response cache. The fresh response still replaces the cached one
+   */
+  noCache?: boolean;
+  /**
+   * Fetch the file's Figma Variables and resolve the nodes' bindings to them. Defaults to true
+   */
+  resolveVariables?: boolean;
+  /**
+   * ID of a version from the file's history to read instead of the current state
+   */
+  version?: string;
+  /**
+   * Key or name of one of the file's branches to read instead of the main file
+   */
+  branch?: string;
+};
+
+export type FetchVersionsOptions = {
+  /**
+   * Number of versions per page. Figma defaults to 30
+   */
+  pageSize?: number;
+  /**
+   * Only list versions created before this version ID, for paging through older history
+   */
+  before?: string;
 };
 
+type RequestBody = {
+  method: "POST";
+  body: unknown;
+};
+
+export type SimplifyOptions = FetchFileOptions &
+  Pick<ParseOptions, "collapseInstances" | "rawPaints">;
+
+export interface ImageDownloadResult {
+  nodeId: string;
+  imageRef?: string;
+  /**
+   * Only missing when no file name was requested and the image could not be downloaded
+   */
+  fileName?: string;
+  success: boolean;
+  /**
+   * Absolute path of the saved file, only set on success
+   */
+  filePath?: string;
+  error?: string;
+}
+
 export class FigmaService {
-  private readonly apiKey: string;
+  private readonly auth: FigmaAuth;
+  /**
+   * Identifies the credentials in cache keys, so responses read with one token are never served to
+   * another token that may lack access to the file
+   */
+  private readonly cacheScope: string;
   private readonly baseUrl = "https://api.figma.com/v1";
+  private readonly cache: FigmaResponseCache | null;
+  private readonly retry: Required<RetryOptions>;
+  /**
+   * Files whose variables this token can't read, so we don't ask again on every request
+   */
+  private readonly variablesUnavailable = new Set<string>();
+  /**
+   * Branch keys by file key and branch key or name
+   */
+  private readonly branchKeys = new Map<string, string>();
 
-  constructor(apiKey: string) {
-    this.apiKey = apiKey;
+  /**
+   * @param auth - Credentials for every request. A plain string is taken as a personal access token
+   */
+  constructor(auth: FigmaAuth | string, { cache = null, retry = {} }: FigmaServiceOptions = {}) {
+    this.auth = typeof auth === "string" ? { type: "personal", token: auth } : auth;
+    this.cacheScope = createHash("sha256").update(this.auth.token).digest("hex").slice(0, 16);
+    this.cache = cache;
+    this.retry = {
+      maxRetries: retry.maxRetries ?? 3,
+      baseDelayMs: retry.baseDelayMs ?? 500,
+      maxDelayMs: retry.maxDelayMs ?? 60_000,
+    };
   }
 
-  private async request<T>(endpoint: string): Promise<T> {
+  private async request<T>(endpoint: string, write?: RequestBody): Promise<T> {
     if (typeof fetch !== "function") {
       throw new Error(
         "The MCP server is being run in a Node.js environment where `fetch` is not available. You won't be able to access any data related to the Figma file.\n\nAs the coding AI assistant, PLEASE ABORT THE CURRENT REQUEST. No alternate approaches will work. Help the user fix this issue so you can proceed by letting them know that they need to run the MCP server with Node.js version 18 or higher.",
       );
     }
+    if (!this.auth.token) {
+      throw new Error(
+        "No Figma credentials. Set FIGMA_API_KEY on the server, or send a personal access token as X-Figma-Token or an OAuth token as Authorization: Bearer",
+      );
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchOnce<T>(endpoint, write);
+      } catch (error) {
+        // A failed write may still have gone through, so only retry when Figma turned it away
+        const retryable =
+          error instanceof FigmaApiError
+            ? write
+              ? error.kind === "rate_limit"
+              : error.retryable
+            : !write;
+        if (!retryable || attempt >= this.retry.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.getRetryDelay(attempt, error);
+        if (delay > this.retry.maxDelayMs) {
+          throw error;
+        }
+        Logger.log(`Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 1}): ${error}`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async fetchOnce<T>(endpoint: string, write?: RequestBody): Promise<T> {
+    let response: Response;
     try {
       Logger.log(`Calling ${this.baseUrl}${endpoint}`);
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method: write?.method,
         headers: {
-          "X-Figma-Token": this.apiKey,
+          ...(this.auth.type === "oauth"
+            ? { Authorization: `Bearer ${this.auth.token}` }
+            : { "X-Figma-Token": this.auth.token }),
+          ...(write && { "Content-Type": "application/json" }),
         },
+        body: write && JSON.stringify(write.body),
       });
-
-      if (!response.ok) {
-        throw {
-          status: response.status,
-          err: response.statusText || "Unknown error",
-        } as FigmaError;
-      }
-
-      return await response.json();
     } catch (error) {
-      if ((error as FigmaError).status) {
-        throw error;
-      }
       if (error instanceof Error) {
         throw new Error(`Failed to make request to Figma API: ${error.message}`);
       }
       throw new Error(`Failed to make request to Figma API: ${error}`);
     }
+
+    if (!response.ok) {
+      throw new FigmaApiError(
+        response.status,
+        endpoint,
+        await readErrorDetail(response),
+        parseRetryAfter(response.headers.get("retry-after")),
+      );
+    }
+
+    return await response.json();
+  }
+
+  /**
+   * Honor Retry-After when Figma sends one, otherwise back off exponentially with full jitter
+   */
+  private getRetryDelay(attempt: number, error: unknown): number {
+    if (error instanceof FigmaApiError && error.retryAfter !== undefined) {
+      return error.retryAfter * 1000;
+    }
+    const ceiling = Math.min(this.retry.baseDelayMs * 2 ** attempt, this.retry.maxDelayMs);
+    return Math.round(Math.random() * ceiling);
   }
 
+  /**
+   * Download image fills by imageRef. Figma lists a file's image fills without versions, but an
+   * imageRef identifies the image's content, so refs read from a saved version still resolve
+   */
   async getImageFills(
     fileKey: string,
     nodes: FetchImageFillParams[],
     localPath: string,
-  ): Promise<string[]> {
+    { branch, downloader }: Pick<FetchImageOptions, "branch" | "downloader"> = {},
+  ): Promise<ImageDownloadResult[]> {
     if (nodes.length === 0) return [];
 
-    let promises: Promise<string>[] = [];
-    const endpoint = `/files/${fileKey}/images`;
+    const key = await this.resolveBranchKey(fileKey, branch);
+    const endpoint = `/files/${key}/images`;
     const file = await this.request<GetImageFillsResponse>(endpoint);
     const { images = {} } = file.meta;
-    promises = nodes.map(async ({ imageRef, fileName }) => {
-      const imageUrl = images[imageRef];
-      if (!imageUrl) {
-        return "";
-      }
-      return downloadFigmaImage(fileName, localPath, imageUrl);
-    });
-    return Promise.all(promises);
+
+    const download = downloader ?? createImageDownloader(localPath);
+    return Promise.all(
+      nodes.map(({ nodeId, imageRef, fileName }) =>
+        download({ nodeId, imageRef, fileName }, images[imageRef]),
+      ),
+    );
   }
 
   async getImages(
     fileKey: string,
     nodes: FetchImageParams[],
     localPath: string,
-  ): Promise<string[]> {
-    const pngIds = nodes.filter(({ fileType }) => fileType === "png").map(({ nodeId }) => nodeId);
-    const pngFiles =
-      pngIds.length > 0
-        ? this.request<GetImagesResponse>(
-            `/images/${fileKey}?ids=${pngIds.join(",")}&scale=2&format=png`,
-          ).then(({ images = {} }) => images)
-        : ({} as GetImagesResponse["images"]);
-
-    const svgIds = nodes.filter(({ fileType }) => fileType === "svg").map(({ nodeId }) => nodeId);
-    const svgFiles =
-      svgIds.length > 0
-        ? this.request<GetImagesResponse>(
-            `/images/${fileKey}?ids=${svgIds.join(",")}&format=svg`,
-          ).then(({ images = {} }) => images)
-        : ({} as GetImagesResponse["images"]);
-
-    const files = await Promise.all([pngFiles, svgFiles]).then(([f, l]) => ({ ...f, ...l }));
-
-    const downloads = nodes
-      .map(({ nodeId, fileName }) => {
-        const imageUrl = files[nodeId];
-        if (imageUrl) {
-          return downloadFigmaImage(fileName, localPath, imageUrl);
-        }
-        return false;
-      })
-      .filter((url) => !!url);
+    { scale = 2, version, branch, downloader }: FetchImageOptions = {},
+  ): Promise<ImageDownloadResult[]> {
+    if (nodes.length === 0) return [];
+
+    const key = await this.resolveBranchKey(fileKey, branch);
+    const formats = [...new Set(nodes.map(({ fileType }) => fileType))];
+    const renders = await Promise.all(
+      formats.map(async (format) => {
+        const ids = [
+          ...new Set(
+            nodes.filter(({ fileType }) => fileType === format).map(({ nodeId }) => nodeId),
+          ),
+        ];
+        // Scale is only meaningful for raster exports
+        const scaleParam = format === "png" || format === "jpg" ? `&scale=${scale}` : "";
+        const { images = {} } = await this.request<GetImagesResponse>(
+          withQuery(`/images/${key}?ids=${ids.join(",")}&format=${format}${scaleParam}`, {
+            version,
+          }),
+        );
+        return [format, images] as const;
+      }),
+    );
+    const files = Object.fromEntries(renders) as Record<ImageFormat, GetImagesResponse["images"]>;
+
+    const download = downloader ?? createImageDownloader(localPath);
+    return Promise.all(
+      nodes.map(({ nodeId, fileName, fileType }) =>
+        download({ nodeId, fileName }, files[fileType]?.[nodeId] ?? undefined),
+      ),
+    );
+  }
+
+  /**
+   * Get temporary render URLs for the given nodes, without downloading them
+   */
+  async getImageUrls(
+    fileKey: string,
+    nodeIds: string[],
+    format: ImageFormat = "png",
+    { version, branch }: Pick<FetchFileOptions, "version" | "branch"> = {},
+  ): Promise<Record<string, string>> {
+    if (!nodeIds.length) return {};
+    const key = await this.resolveBranchKey(fileKey, branch);
+    const { images = {} } = await this.request<GetImagesResponse>(
+      withQuery(`/images/${key}?ids=${nodeIds.join(",")}&format=${format}`, { version }),
+    );
+    return Object.fromEntries(
+      Object.entries(images).filter((entry): entry is [string, string] => !!entry[1]),
+    );
+  }
+
+  /**
+   * Serve a response from the cache if it still matches the file's current version, otherwise
+   * fetch it and store the result
+   * @param readAt - The file version a response that carries no version is read at. Defaults to
+   * the response's own version
+   */
+  private async cachedRequest<T>(
+    key: FigmaCacheKey,
+    endpoint: string,
+    { noCache = false }: FetchFileOptions,
+    readAt?: FileVersion,
+  ): Promise<T> {
+    key = { ...key, scope: this.cacheScope };
+    if (this.cache && !noCache) {
+      const cached = await this.cache.get<T>(key, () => this.getFileVersion(key.fileKey));
+      if (cached) {
+        Logger.log(`Serving ${endpoint} from cache`);
+        return cached;
+      }
+    }
+
+    const response = await this.request<T>(endpoint);
+    this.cache?.set(key, response, readAt ?? (response as FileVersion));
+    return response;
+  }
+
+  /**
+   * Look up a file's current version without downloading its node tree
+   */
+  async getFileVersion(fileKey: string): Promise<FileVersion> {
+    const { version, lastModified } = await this.request<GetFileResponse>(
+      `/files/${fileKey}?depth=1`,
+    );
+    return { version, lastModified };
+  }
+
+  async getLocalVariables(fileKey: string): Promise<GetLocalVariablesResponse> {
+    return this.request<GetLocalVariablesResponse>(`/files/${fileKey}/variables/local`);
+  }
+
+  async getPublishedVariables(fileKey: string): Promise<GetPublishedVariablesResponse> {
+    return this.request<GetPublishedVariablesResponse>(`/files/${fileKey}/variables/published`);
+  }
+
+  /**
+   * Get a file's local and published variables. The Variables API is limited to Enterprise plans
+   * and the file_variables:read scope, so this returns undefined when neither endpoint is readable
+   */
+  async getVariables(fileKey: string): Promise<FigmaVariables | undefined> {
+    if (this.variablesUnavailable.has(fileKey)) return undefined;
+
+    const [local, published] = await Promise.allSettled([
+      this.getLocalVariables(fileKey),
+      this.getPublishedVariables(fileKey),
+    ]);
+    if (local.status === "rejected" && published.status === "rejected") {
+      if (local.reason instanceof FigmaApiError && !local.reason.retryable) {
+        this.variablesUnavailable.add(fileKey);
+      }
+      Logger.log(`Variables are not available for ${fileKey}:`, local.reason);
+      return undefined;
+    }
+
+    return mergeVariables(
+      local.status === "fulfilled" ? local.value : undefined,
+      published.status === "fulfilled" ? published.value : undefined,
+    );
+  }
+
+  /**
+   * Fetch variables only if the nodes are bound to any
+   */
+  private async getVariablesFor(
+    fileKey: string,
+    nodes: FigmaDocumentNode[],
+    { resolveVariables = true }: FetchFileOptions,
+  ): Promise<FigmaVariables | undefined> {
+    if (!resolveVariables || !hasBoundVariables(nodes)) return undefined;
+    return this.getVariables(fileKey);
+  }
+
+  /**
+   * Fetch the nodes that define the given shared styles, by style ID, so nodes can be compared
+   * against their style's own values. Only the file's published styles are listed by the API, so
+   * unpublished and library styles are left out
+   * @param readAt - The version of the file the styles were read from. The list of published
+   * styles is cached along with the file's responses until the file changes
+   */
+  async getStyleNodes(
+    fileKey: string,
+    styles: Record<string, Style>,
+    readAt: FileVersion,
+    { version, noCache }: FetchFileOptions = {},
+  ): Promise<Record<string, FigmaDocumentNode> | undefined> {
+    const styleIds = Object.keys(styles ?? {}).filter((id) => !styles[id].remote);
+    if (!styleIds.length) return undefined;
+
+    try {
+      const { meta } = await this.cachedRequest<GetFileStylesResponse>(
+        { fileKey, resource: "styles", version },
+        `/files/${fileKey}/styles`,
+        { noCache },
+        readAt,
+      );
+      const nodeIdsByKey = new Map(meta.styles.map((style) => [style.key, style.node_id]));
+      const nodeIds = new Map(
+        styleIds
+          .filter((id) => nodeIdsByKey.has(styles[id].key))
+          .map((id) => [id, nodeIdsByKey.get(styles[id].key)!]),
+      );
+      if (!nodeIds.size) return undefined;
+
+      const { nodes } = await this.getRawNode(
+        fileKey,
+        [...new Set(nodeIds.values())].join(","),
+        undefined,
+        {
+          version,
+          noCache,
+        },
+      );
+      return Object.fromEntries(
+        [...nodeIds]
+          .filter(([, nodeId]) => nodes[nodeId]?.document)
+          .map(([styleId, nodeId]) => [styleId, nodes[nodeId].document]),
+      );
+    } catch (error) {
+      Logger.log(`Shared style values are not available for ${fileKey}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetch the local component and component set nodes whose property defaults a node response
+   * needs for collapsing instances, since the main components are usually outside the response
+   */
+  private async getComponentNodes(
+    fileKey: string,
+    components: Record<string, Component>,
+    { version, noCache }: FetchFileOptions,
+  ): Promise<FigmaDocumentNode[]> {
+    const ids = [
+      ...new Set(
+        Object.entries(components)
+          .filter(([, component]) => !component.remote)
+          .map(([id, { componentSetId }]) => componentSetId ?? id),
+      ),
+    ];
+    if (!ids.length) return [];
+
+    try {
+      const { nodes } = await this.getRawNode(fileKey, ids.join(","), 1, { version, noCache });
+      return Object.values(nodes)
+        .filter((node) => !!node?.document)
+        .map(({ document }) => document);
+    } catch (error) {
+      Logger.log(`Component definitions are not available for ${fileKey}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * List the file's saved versions, newest first
+   */
+  async getVersions(
+    fileKey: string,
+    { pageSize, before }: FetchVersionsOptions = {},
+  ): Promise<GetFileVersionsResponse> {
+    return this.request<GetFileVersionsResponse>(
+      withQuery(`/files/${fileKey}/versions`, { page_size: pageSize, before }),
+    );
+  }
+
+  /**
+   * List every comment and reply on a file
+   */
+  async getComments(fileKey: string): Promise<GetCommentsResponse> {
+    return this.request<GetCommentsResponse>(`/files/${fileKey}/comments`);
+  }
+
+  /**
+   * Post a comment, or a reply when body.comment_id is set. The token needs the
+   * file_comments:write scope
+   */
+  async postComment(fileKey: string, body: PostCommentRequestBody): Promise<PostCommentResponse> {
+    return this.request<PostCommentResponse>(`/files/${fileKey}/comments`, {
+      method: "POST",
+      body,
+    });
+  }
+
+  /**
+   * Find the key the API takes for one of a file's branches
+   * @param branch - The branch's key or name. If unset, the file key is returned as is
+   */
+  async resolveBranchKey(fileKey: string, branch?: string): Promise<string> {
+    if (!branch) return fileKey;
+    const cached = this.branchKeys.get(`${fileKey}|${branch}`);
+    if (cached) return cached;
+
+    const { branches = [] } = await this.request<GetFileResponse>(
+      `/files/${fileKey}?depth=1&branch_data=true`,
+    );
+    const match =
+      branches.find(({ key }) => key === branch) ??
+      branches.find(({ name }) => name === branch) ??
+      branches.find(({ name }) => name.toLowerCase() === branch.toLowerCase());
+    if (!match) {
+      const available = branches.map(({ name }) => name).join(", ") || "none";
+      throw new Error(`Branch "${branch}" not found in file ${fileKey}. Branches: ${available}`);
+    }
+    this.branchKeys.set(`${fileKey}|${branch}`, match.key);
+    return match.key;
+  }
 
-    return Promise.all(downloads);
+  async getRawFile(
+    fileKey: string,
+    depth?: number,
+    options: FetchFileOptions = {},
+  ): Promise<GetFileResponse> {
+    const key = await this.resolveBranchKey(fileKey, options.branch);
+    const { version } = options;
+    const endpoint = withQuery(`/files/${key}`, { depth: depth || undefined, version });
+    return this.cachedRequest<GetFileResponse>({ fileKey: key, depth, version }, endpoint, options);
   }
 
-  async getFile(fileKey: string, depth?: number): Promise<SimplifiedDesign> {
+  async getFile(
+    fileKey: string,
+    depth?: number,
+    options: SimplifyOptions = {},
+  ): Promise<SimplifiedDesign> {
     try {
-      const endpoint = `/files/${fileKey}${depth ? `?depth=${depth}` : ""}`;
       Logger.log(`Retrieving Figma file: ${fileKey} (depth: ${depth ?? "default"})`);
-      const response = await this.request<GetFileResponse>(endpoint);
+      const response = await this.getRawFile(fileKey, depth, options);
       Logger.log("Got response");
-      const simplifiedResponse = parseFigmaResponse(response);
+      const key = await this.resolveBranchKey(fileKey, options.branch);
+      const variables = await this.getVariablesFor(key, response.document.children, options);
+      const simplifiedResponse = parseFigmaResponse(response, {
+        variables,
+        styleNodes: await this.getStyleNodes(key, response.styles, response, options),
+        collapseInstances: options.collapseInstances,
+        rawPaints: options.rawPaints,
+      });
+      markCurrentVariables(simplifiedResponse, variables, options);
       writeLogs("figma-raw.yml", response);
       writeLogs("figma-simplified.yml", simplifiedResponse);
       return simplifiedResponse;
@@ -150,17 +649,103 @@ export class FigmaService {
     }
   }
 
-  async getNode(fileKey: string, nodeId: string, depth?: number): Promise<SimplifiedDesign> {
-    const endpoint = `/files/${fileKey}/nodes?ids=${nodeId}${depth ? `&depth=${depth}` : ""}`;
-    const response = await this.request<GetFileNodesResponse>(endpoint);
+  async getRawNode(
+    fileKey: string,
+    nodeId: string,
+    depth?: number,
+    options: FetchFileOptions = {},
+  ): Promise<GetFileNodesResponse> {
+    const key = await this.resolveBranchKey(fileKey, options.branch);
+    const { version } = options;
+    const endpoint = withQuery(`/files/${key}/nodes?ids=${nodeId}`, {
+      depth: depth || undefined,
+      version,
+    });
+    return this.cachedRequest<GetFileNodesResponse>(
+      { fileKey: key, nodeIds: nodeId.split(","), depth, version },
+      endpoint,
+      options,
+    );
+  }
+
+  async getNode(
+    fileKey: string,
+    nodeId: string,
+    depth?: number,
+    options: SimplifyOptions = {},
+  ): Promise<SimplifiedDesign> {
+    const response = await this.getRawNode(fileKey, nodeId, depth, options);
     Logger.log("Got response from getNode, now parsing.");
     writeLogs("figma-raw.yml", response);
-    const simplifiedResponse = parseFigmaResponse(response);
+    const key = await this.resolveBranchKey(fileKey, options.branch);
+    const variables = await this.getVariablesFor(
+      key,
+      Object.values(response.nodes).map((n) => n.document),
+      options,
+    );
+    const styles = Object.assign({}, ...Object.values(response.nodes).map((n) => n.styles));
+    const components = Object.assign({}, ...Object.values(response.nodes).map((n) => n.components));
+    const simplifiedResponse = parseFigmaResponse(response, {
+      variables,
+      styleNodes: await this.getStyleNodes(key, styles, response, options),
+      collapseInstances: options.collapseInstances,
+      componentNodes: options.collapseInstances
+        ? await this.getComponentNodes(key, components, options)
+        : undefined,
+      rawPaints: options.rawPaints,
+    });
+    markCurrentVariables(simplifiedResponse, variables, options);
     writeLogs("figma-simplified.yml", simplifiedResponse);
     return simplifiedResponse;
   }
 }
 
+/**
+ * Variables have no history, so a saved version's bindings are resolved against the variables'
+ * current values. Flag that, so they aren't taken for the values the version was saved with
+ */
+function markCurrentVariables(
+  design: SimplifiedDesign,
+  variables: FigmaVariables | undefined,
+  { version }: FetchFileOptions,
+): void {
+  if (version && variables) design.currentVariableValues = true;
+}
+
+/**
+ * Append query parameters to an endpoint, leaving out unset ones
+ */
+function withQuery(endpoint: string, params: Record<string, string | number | undefined>): string {
+  const query = Object.entries(params)
+    .filter((entry): entry is [string, string | number] => entry[1] !== undefined)
+    .map(([name, value]) => `${name}=${encodeURIComponent(value)}`)
+    .join("&");
+  if (!query) return endpoint;
+  return `${endpoint}${endpoint.includes("?") ? "&" : "?"}${query}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+async function readErrorDetail(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  try {
+    const body = JSON.parse(text);
+    return body.err ?? body.message ?? (response.statusText || "Unknown error");
+  } catch {
+    return text || response.statusText || "Unknown error";
+  }
+}
+
 function writeLogs(name: string, value: any) {
   try {
     if (process.env.NODE_ENV !== "development") return;
@@ -182,21 +767,89 @@ function writeLogs(name: string, value: any) {
   }
 }
 
+export type ImageDownloader = ReturnType<typeof createImageDownloader>;
+
 /**
- * Fetch image URLs for given node IDs from Figma API.
+ * Create a downloader that saves each distinct (image URL, file name) pair once and reports the
+ * outcome for every requested entry, including entries Figma returned no URL for. Entries
+ * without a file name are named after their imageRef and the type the image is served as
  */
-export async function fetchImageUrls(
-  fileKey: string,
-  nodeIds: string[],
-  accessToken: string
-): Promise<Record<string, string>> {
-  if (!nodeIds.length) return {};
-  const idsParam = nodeIds.join(",");
-  const url = `https://api.figma.com/v1/images/${fileKey}?ids=${idsParam}&format=png`;
-  const response = await fetch(url, {
-    headers: { "X-Figma-Token": accessToken }
-  });
-  if (!response.ok) throw new Error("Failed to fetch image URLs from Figma API");
-  const data = await response.json();
-  return data.images || {};
+export function createImageDownloader(localPath: string) {
+  const pending = new Map<string, Promise<string>>();
+  const claimedFileNames = new Map<string, string>();
+  const claim = (fileName: string, imageUrl: string) => {
+    const owner = claimedFileNames.get(fileName);
+    if (owner && owner !== imageUrl) {
+      throw new Error(`File name ${fileName} is already used by another image in this request`);
+    }
+    claimedFileNames.set(fileName, imageUrl);
+  };
+
+  return async (
+    target: Pick<ImageDownloadResult, "nodeId" | "imageRef" | "fileName">,
+    imageUrl: string | null | undefined,
+  ): Promise<ImageDownloadResult> => {
+    if (!imageUrl) {
+      return {
+        ...target,
+        success: false,
+        error: target.imageRef
+          ? `No image found for imageRef ${target.imageRef}`
+          : `Figma could not render node ${target.nodeId}`,
+      };
+    }
+
+    const { fileName } = target;
+    if (fileName !== undefined) {
+      try {
+        claim(fileName, imageUrl);
+      } catch (error) {
+        return { ...target, success: false, error: (error as Error).message };
+      }
+    }
+
+    const key = `${imageUrl}|${fileName ?? ""}`;
+    if (!pending.has(key)) {
+      const baseName = target.imageRef ?? target.nodeId.replace(/:/g, "-");
+      pending.set(
+        key,
+        downloadFigmaImage(
+          fileName ??
+            ((contentType) => {
+              const name = `${baseName}.${getImageExtension(contentType)}`;
+              claim(name, imageUrl);
+              return name;
+            }),
+          localPath,
+          imageUrl,
+        ),
+      );
+    }
+
+    try {
+      const filePath = await pending.get(key)!;
+      return { ...target, fileName: path.basename(filePath), success: true, filePath };
+    } catch (error) {
+      return {
+        ...target,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  };
+}
+
+function getImageExtension(contentType: string | null): string {
+  switch (contentType?.split(";")[0].trim().toLowerCase()) {
+    case "image/jpeg":
+      return "jpg";
+    case "image/gif":
+      return "gif";
+    case "image/webp":
+      return "webp";
+    case "image/svg+xml":
+      return "svg";
+    default:
+      return "png";
+  }
 }
@@ -0,0 +1,141 @@
+import type { GetFileResponse, Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { isVisible } from "~/utils/common.js";
+import { hasValue, isRectangle } from "~/utils/identity.js";
+import type { BoundingBox } from "./simplify-node-response.js";
+
+export type NodeSearchQuery = {
+  /**
+   * Regular expression matched against node names, case-insensitive
+   */
+  name?: string;
+  /**
+   * Node types to include, e.g. FRAME or INSTANCE
+   */
+  types?: string[];
+  /**
+   * Text content to look for in text nodes, case-insensitive
+   */
+  text?: string;
+  /**
+   * Name of the main component or component set of instances, case-insensitive substring
+   */
+  component?: string;
+  /**
+   * Name of a shared style the node uses, case-insensitive substring
+   */
+  style?: string;
+  /**
+   * Maximum number of matches to return. Defaults to 50
+   */
+  limit?: number;
+};
+
+export type NodeSearchMatch = {
+  id: string;
+  name: string;
+  type: string;
+  /**
+   * Names of the page and frames containing the node, outermost first
+   */
+  path: string[];
+  boundingBox?: BoundingBox;
+  text?: string;
+  component?: string;
+};
+
+export type NodeSearchResult = {
+  /**
+   * Number of matching nodes, which may be more than were returned
+   */
+  total: number;
+  matches: NodeSearchMatch[];
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_TEXT_LENGTH = 80;
+
+/**
+ * Throw if a query can't be run, so it can be rejected before the file is read
+ */
+export function validateNodeSearchQuery(query: NodeSearchQuery): void {
+  const { name, types, text, component, style } = query;
+  if (!name && !types?.length && !text && !component && !style) {
+    throw new Error("Search needs at least one of name, types, text, component or style");
+  }
+  if (name) toNamePattern(name);
+}
+
+function toNamePattern(name: string): RegExp {
+  try {
+    return new RegExp(name, "i");
+  } catch (error) {
+    throw new Error(`Invalid name pattern ${JSON.stringify(name)}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Find nodes in a file matching every given criterion. Hidden nodes and their children are
+ * skipped, since they don't show up in get_figma_data either
+ */
+export function searchNodes(file: GetFileResponse, query: NodeSearchQuery): NodeSearchResult {
+  validateNodeSearchQuery(query);
+  const { name, types, text, component, style, limit = DEFAULT_LIMIT } = query;
+
+  const namePattern = name ? toNamePattern(name) : undefined;
+  const typeSet = types?.length ? new Set(types.map((type) => type.toUpperCase())) : undefined;
+  const contains = (value: string | undefined, search: string) =>
+    !!value && value.toLowerCase().includes(search.toLowerCase());
+
+  const getComponentNames = (n: FigmaDocumentNode): string[] => {
+    if (n.type !== "INSTANCE") return [];
+    const definition = file.components[n.componentId];
+    const set = definition?.componentSetId ? file.componentSets[definition.componentSetId] : null;
+    return [definition?.name, set?.name].filter((value): value is string => !!value);
+  };
+  const getStyleNames = (n: FigmaDocumentNode): string[] =>
+    hasValue("styles", n)
+      ? Object.values(n.styles as Record<string, string>)
+          .map((id) => file.styles[id]?.name)
+          .filter((value): value is string => !!value)
+      : [];
+
+  const matches: NodeSearchMatch[] = [];
+  let total = 0;
+  const visit = (n: FigmaDocumentNode, path: string[]) => {
+    if (!isVisible(n)) return;
+    const characters = hasValue("characters", n) ? String(n.characters) : undefined;
+    const componentNames = getComponentNames(n);
+
+    const isMatch =
+      (!namePattern || namePattern.test(n.name)) &&
+      (!typeSet || typeSet.has(n.type)) &&
+      (!text || contains(characters, text)) &&
+      (!component || componentNames.some((value) => contains(value, component))) &&
+      (!style || getStyleNames(n).some((value) => contains(value, style)));
+    if (isMatch && n.type !== "DOCUMENT") {
+      total++;
+      if (matches.length < limit) {
+        matches.push({
+          id: n.id,
+          name: n.name,
+          type: n.type,
+          path,
+          boundingBox: isRectangle("absoluteBoundingBox", n) ? n.absoluteBoundingBox : undefined,
+          text:
+            characters && characters.length > MAX_TEXT_LENGTH
+              ? `${characters.slice(0, MAX_TEXT_LENGTH - 1)}…`
+              : characters,
+          component: componentNames[0],
+        });
+      }
+    }
+
+    if (hasValue("children", n) && Array.isArray(n.children)) {
+      const childPath = n.type === "DOCUMENT" ? path : [...path, n.name];
+      for (const child of n.children as FigmaDocumentNode[]) visit(child, childPath);
+    }
+  };
+  visit(file.document, []);
+
+  return { total, matches };
+}
@@ -0,0 +1,213 @@
+import * as yaml from "js-yaml";
+import type { TextStyle } from "~/transformers/text.js";
+import type { SimplifiedLayout } from "~/transformers/layout.js";
+import type { SimplifiedStroke } from "~/transformers/style.js";
+import type { SimplifiedEffects } from "~/transformers/effects.js";
+import type { SimplifiedDesign, SimplifiedFill, SimplifiedNode } from "./simplify-node-response.js";
+import { SIMPLIFIED_DESIGN_SCHEMA } from "./design-schema.js";
+
+export const OUTPUT_FORMATS = ["yaml", "json", "outline", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Nodes deeper than this are summarized by their child count in the markdown structure
+ */
+const MARKDOWN_STRUCTURE_DEPTH = 4;
+const MAX_INLINE_TEXT_LENGTH = 60;
+
+/**
+ * Serialize a simplified design for get_figma_data
+ * @param format - yaml and json carry everything, outline and markdown are lossy summaries
+ */
+export function formatDesign(design: SimplifiedDesign, format: OutputFormat = "yaml"): string {
+  const { nodes, globalVars, ...metadata } = design;
+  switch (format) {
+    case "json":
+      return JSON.stringify({ $schema: SIMPLIFIED_DESIGN_SCHEMA.$id, metadata, nodes, globalVars });
+    case "outline":
+      return formatOutline(design);
+    case "markdown":
+      return formatMarkdown(design);
+    case "yaml":
+    default:
+      return yaml.dump({ metadata, nodes, globalVars });
+  }
+}
+
+/**
+ * One line per node, indented by depth, with its key styles inline
+ */
+function formatOutline(design: SimplifiedDesign): string {
+  const lines = [`${design.name} (last modified ${design.lastModified})`];
+  const overBudget = describeExceededBudget(design);
+  if (overBudget) lines.push(overBudget);
+  walk(design.nodes, (node, depth) => {
+    const details = describeNode(design, node);
+    lines.push(
+      `${"  ".repeat(depth)}${node.name} [${node.type} ${node.id}]${
+        details.length ? ` ${details.join(" | ")}` : ""
+      }`,
+    );
+  });
+  return lines.join("\n");
+}
+
+function describeNode(design: SimplifiedDesign, node: SimplifiedNode): string[] {
+  const details: string[] = [];
+  if (node.text !== undefined) details.push(JSON.stringify(truncate(node.text)));
+
+  if (node.componentId) {
+    const component = design.components?.[node.componentId]?.name ?? node.componentId;
+    const variant = Object.entries(node.variant ?? {}).map(([key, value]) => `${key}=${value}`);
+    details.push(`instance of ${component}${variant.length ? ` (${variant.join(", ")})` : ""}`);
+  }
+
+  const layout = lookup<SimplifiedLayout>(design, node.layout);
+  if (layout) {
+    const parts: string[] = [];
+    if (layout.mode !== "none") parts.push(layout.wrap ? `${layout.mode} wrap` : layout.mode);
+    if (layout.gap) parts.push(`gap ${layout.gap}`);
+    if (layout.padding) parts.push(`padding ${layout.padding}`);
+    if (layout.dimensions?.width !== undefined || layout.dimensions?.height !== undefined) {
+      parts.push(`${layout.dimensions.width ?? "auto"}x${layout.dimensions.height ?? "auto"}`);
+    }
+    if (parts.length) details.push(parts.join(", "));
+  }
+
+  const textStyle = lookup<TextStyle>(design, node.textStyle);
+  if (textStyle) details.push(node.styles?.textStyle ?? describeTextStyle(textStyle));
+
+  const fills = lookup<SimplifiedFill[]>(design, node.fills);
+  if (fills?.length) {
+    details.push(`fills ${node.styles?.fills ?? fills.map(describeFill).join(", ")}`);
+  }
+  const strokes = lookup<SimplifiedStroke>(design, node.strokes);
+  if (strokes?.colors.length) {
+    details.push(
+      `stroke ${[strokes.strokeWeight, ...strokes.colors.map(describeFill)].filter(Boolean).join(" ")}`,
+    );
+  }
+  const effects = lookup<SimplifiedEffects>(design, node.effects);
+  if (effects?.boxShadow) details.push(`shadow ${effects.boxShadow}`);
+  if (node.borderRadius) details.push(`radius ${node.borderRadius}`);
+  if (node.opacity !== undefined) details.push(`opacity ${node.opacity}`);
+  if (node.truncated) {
+    details.push(`${node.truncated.nodeCount} nodes not shown (${node.truncated.summary})`);
+  }
+  return details;
+}
+
+/**
+ * A short human-readable report: what's in the file, the palette and type scale it uses, and the
+ * top of the node tree
+ */
+function formatMarkdown(design: SimplifiedDesign): string {
+  const nodeTypes = new Map<string, number>();
+  const componentUses = new Map<string, number>();
+  const colors = new Map<string, number>();
+  const typography = new Map<string, number>();
+  let nodeCount = 0;
+  walk(design.nodes, (node) => {
+    nodeCount++;
+    increment(nodeTypes, node.type);
+    if (node.componentId) {
+      increment(componentUses, design.components?.[node.componentId]?.name ?? node.componentId);
+    }
+    for (const fill of lookup<SimplifiedFill[]>(design, node.fills) ?? []) {
+      if (typeof fill === "string" && !fill.includes("gradient(")) increment(colors, fill);
+    }
+    const textStyle = lookup<TextStyle>(design, node.textStyle);
+    if (textStyle) increment(typography, node.styles?.textStyle ?? describeTextStyle(textStyle));
+  });
+
+  const overBudget = describeExceededBudget(design);
+  const sections = [
+    `# ${design.name}`,
+    `Last modified ${design.lastModified}`,
+    ...(overBudget ? [`> ${overBudget}`] : []),
+    `## Overview\n\n${nodeCount} nodes: ${byFrequency(nodeTypes)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ")}`,
+  ];
+  const listSection = (title: string, counts: Map<string, number>, code = false) => {
+    if (!counts.size) return;
+    const items = byFrequency(counts).map(
+      ([name, count]) => `- ${code ? `\`${name}\`` : name}: ${count} ${plural(count, "node")}`,
+    );
+    sections.push(`## ${title}\n\n${items.join("\n")}`);
+  };
+  listSection("Components", componentUses);
+  listSection("Colors", colors, true);
+  listSection("Typography", typography);
+
+  const structure: string[] = [];
+  walk(design.nodes, (node, depth) => {
+    if (depth >= MARKDOWN_STRUCTURE_DEPTH) return false;
+    const text = node.text !== undefined ? `: ${JSON.stringify(truncate(node.text))}` : "";
+    const hidden = node.truncated
+      ? ` (${node.truncated.nodeCount} nodes not shown: ${node.truncated.summary})`
+      : depth === MARKDOWN_STRUCTURE_DEPTH - 1 && node.children?.length
+        ? ` (${node.children.length} ${plural(node.children.length, "child", "children")})`
+        : "";
+    structure.push(`${"  ".repeat(depth)}- **${node.name}** ${node.type}${text}${hidden}`);
+  });
+  sections.push(`## Structure\n\n${structure.join("\n")}`);
+  return `${sections.join("\n\n")}\n`;
+}
+
+/**
+ * Visit nodes depth first. Returning false from the visitor skips the node's children
+ */
+function walk(
+  nodes: SimplifiedNode[],
+  visit: (node: SimplifiedNode, depth: number) => boolean | void,
+  depth = 0,
+): void {
+  for (const node of nodes) {
+    if (visit(node, depth) === false) continue;
+    if (node.children) walk(node.children, visit, depth + 1);
+  }
+}
+
+function lookup<T>(design: SimplifiedDesign, id: string | undefined): T | undefined {
+  return id
+    ? (design.globalVars.styles[id as keyof typeof design.globalVars.styles] as T)
+    : undefined;
+}
+
+function describeExceededBudget({ tokenBudgetExceeded }: SimplifiedDesign): string | undefined {
+  if (!tokenBudgetExceeded) return;
+  const { maxTokens, estimatedTokens } = tokenBudgetExceeded;
+  return `The top-level nodes alone take about ${estimatedTokens} tokens, over the budget of ${maxTokens}. Their children are left out`;
+}
+
+function describeTextStyle(style: TextStyle): string {
+  return [style.fontFamily, style.fontWeight, style.fontSize && `${style.fontSize}px`]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function describeFill(fill: SimplifiedFill): string {
+  if (typeof fill === "string") return fill;
+  if (fill.imageRef) return `image(${fill.imageRef})`;
+  return fill.gradient ?? fill.hex ?? fill.rgba ?? fill.type ?? "unknown";
+}
+
+function truncate(text: string): string {
+  const singleLine = text.replace(/\s*\n\s*/g, " ");
+  return singleLine.length > MAX_INLINE_TEXT_LENGTH
+    ? `${singleLine.slice(0, MAX_INLINE_TEXT_LENGTH - 1)}…`
+    : singleLine;
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+}
+
+function byFrequency(counts: Map<string, number>): [string, number][] {
+  return [...counts].sort(([a, x], [b, y]) => y - x || a.localeCompare(b));
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return count === 1 ? singular : pluralForm;
+}
@@ -0,0 +1,480 @@
+import type { StyleId } from "~/utils/common.js";
+import type { SimplifiedLayout } from "~/transformers/layout.js";
+import type { SimplifiedStroke } from "~/transformers/style.js";
+import type { SimplifiedEffects } from "~/transformers/effects.js";
+import type { TextLine, TextSegment, TextStyle } from "~/transformers/text.js";
+import { buildCSSBackground } from "~/transformers/paint.js";
+import type {
+  CSSHexColor,
+  CSSRGBAColor,
+  SimplifiedDesign,
+  SimplifiedFill,
+  SimplifiedNode,
+} from "./simplify-node-response.js";
+
+export type ComponentStyleMode = "css-modules" | "inline";
+
+export type GenerateComponentOptions = {
+  /**
+   * Name of the generated component. Defaults to the root node's name in PascalCase
+   */
+  componentName?: string;
+  /**
+   * Defaults to css-modules
+   */
+  styleMode?: ComponentStyleMode;
+};
+
+export interface GeneratedComponent {
+  componentName: string;
+  /**
+   * File contents by file name, e.g. Card.tsx and Card.module.css
+   */
+  files: Record<string, string>;
+}
+
+type Declarations = Record<string, string | number>;
+
+/**
+ * A line of text between line breaks, with its list style if the text contains a list
+ */
+type Paragraph = {
+  segments: TextSegment[];
+  line?: TextLine;
+};
+
+type RenderContext = {
+  design: SimplifiedDesign;
+  styleMode: ComponentStyleMode;
+  classNames: Set<string>;
+  rules: { className: string; declarations: Declarations }[];
+};
+
+const TEXT_CASE: Record<string, string> = {
+  UPPER: "uppercase",
+  LOWER: "lowercase",
+  TITLE: "capitalize",
+};
+
+const TEXT_ALIGN: Record<string, string> = {
+  LEFT: "left",
+  RIGHT: "right",
+  CENTER: "center",
+  JUSTIFIED: "justify",
+};
+
+/**
+ * Turn a simplified design into a React component. The output only depends on the design, so the
+ * same node always produces the same code
+ * @param design - The simplified design, usually of a single node
+ * @param options - Component name and how styles are attached
+ */
+export function generateReactComponent(
+  design: SimplifiedDesign,
+  { componentName, styleMode = "css-modules" }: GenerateComponentOptions = {},
+): GeneratedComponent {
+  const name =
+    (componentName && toPascalCase(componentName)) ||
+    toPascalCase(design.nodes.length === 1 ? design.nodes[0].name : design.name) ||
+    "FigmaComponent";
+  const context: RenderContext = { design, styleMode, classNames: new Set(), rules: [] };
+
+  let body: string[];
+  if (design.nodes.length === 1) {
+    body = renderNode(context, design.nodes[0], undefined, 2);
+  } else {
+    body = [
+      "    <>",
+      ...design.nodes.flatMap((node) => renderNode(context, node, undefined, 3)),
+      "    </>",
+    ];
+  }
+
+  const imports =
+    styleMode === "css-modules" ? [`import styles from "./${name}.module.css";`, ""] : [];
+  const tsx = [
+    ...imports,
+    `export function ${name}() {`,
+    "  return (",
+    ...body,
+    "  );",
+    "}",
+    "",
+    `export default ${name};`,
+    "",
+  ].join("\n");
+
+  const files: Record<string, string> = { [`${name}.tsx`]: tsx };
+  if (styleMode === "css-modules") {
+    files[`${name}.module.css`] = context.rules
+      .map(({ className, declarations }) => {
+        const lines = Object.entries(declarations).map(
+          ([property, value]) => `  ${toCSSProperty(property)}: ${value};`,
+        );
+        return `.${className} {\n${lines.join("\n")}\n}\n`;
+      })
+      .join("\n");
+  }
+  return { componentName: name, files };
+}
+
+function renderNode(
+  context: RenderContext,
+  node: SimplifiedNode,
+  parent: SimplifiedNode | undefined,
+  depth: number,
+): string[] {
+  const indent = "  ".repeat(depth);
+  const declarations = buildDeclarations(context, node, parent);
+  const styleAttribute = buildStyleAttribute(context, node.name, declarations);
+
+  if (node.type === "IMAGE-SVG") {
+    return [`${indent}<img${styleAttribute} src="/${toKebabCase(node.name)}.svg" alt="" />`];
+  }
+
+  const paragraphs = usesParagraphs(context, node);
+  const tag = node.type === "TEXT" && !paragraphs ? "p" : "div";
+  const children: string[] = [];
+  if (paragraphs) {
+    children.push(...renderParagraphs(context, node, `${indent}  `));
+  } else if (node.textSegments) {
+    for (const segment of node.textSegments) {
+      children.push(renderTextSegment(context, node, segment, `${indent}  `));
+    }
+  } else if (node.text !== undefined) {
+    children.push(`${indent}  {${JSON.stringify(node.text)}}`);
+  }
+  for (const fill of getFills(context, node)) {
+    if (typeof fill === "object" && fill.type === "IMAGE") {
+      children.push(`${indent}  {/* Image fill ${fill.imageRef}: download_figma_images */}`);
+    }
+  }
+  for (const child of node.children ?? []) {
+    children.push(...renderNode(context, child, node, depth + 1));
+  }
+
+  if (!children.length) return [`${indent}<${tag}${styleAttribute} />`];
+  return [`${indent}<${tag}${styleAttribute}>`, ...children, `${indent}</${tag}>`];
+}
+
+function renderTextSegment(
+  context: RenderContext,
+  node: SimplifiedNode,
+  { text, color, href, ...style }: TextSegment,
+  indent: string,
+): string {
+  const declarations = buildTextDeclarations(style);
+  if (color) declarations.color = color;
+  const content = `{${JSON.stringify(text)}}`;
+  if (!href && !Object.keys(declarations).length) return `${indent}${content}`;
+
+  const styleAttribute = buildStyleAttribute(context, `${node.name} span`, declarations);
+  if (href) return `${indent}<a href={${JSON.stringify(href)}}${styleAttribute}>${content}</a>`;
+  return `${indent}<span${styleAttribute}>${content}</span>`;
+}
+
+/**
+ * Render text as one element per paragraph, so paragraph spacing and list items can be styled.
+ * Consecutive list items are grouped into ul or ol elements
+ */
+function renderParagraphs(context: RenderContext, node: SimplifiedNode, indent: string): string[] {
+  const lines: string[] = [];
+  let list: { tag: "ul" | "ol"; items: string[] } | undefined;
+  const closeList = () => {
+    if (!list) return;
+    const styleAttribute = buildStyleAttribute(context, `${node.name} list`, {
+      margin: 0,
+      paddingLeft: "1.5em",
+    });
+    lines.push(`${indent}<${list.tag}${styleAttribute}>`, ...list.items, `${indent}</${list.tag}>`);
+    list = undefined;
+  };
+
+  for (const { segments, line } of splitParagraphs(node)) {
+    // Empty lines render a non-breaking space to keep their height
+    const content = segments.length
+      ? segments
+          .map((segment) =>
+            node.textSegments
+              ? renderTextSegment(context, node, segment, "")
+              : `{${JSON.stringify(segment.text)}}`,
+          )
+          .join("")
+      : '{"\\u00a0"}';
+
+    const listTag =
+      line?.listStyleType === "decimal" ? "ol" : line?.listStyleType === "disc" ? "ul" : undefined;
+    if (list && list.tag !== listTag) closeList();
+    if (!listTag) {
+      lines.push(`${indent}<span>${content}</span>`);
+      continue;
+    }
+
+    list ??= { tag: listTag, items: [] };
+    const nested =
+      line?.indent && line.indent > 1
+        ? buildStyleAttribute(context, `${node.name} item`, {
+            marginLeft: `${(line.indent - 1) * 1.5}em`,
+          })
+        : "";
+    list.items.push(`${indent}  <li${nested}>${content}</li>`);
+  }
+  closeList();
+  return lines;
+}
+
+/**
+ * Split a text node's content at line breaks, keeping each run's style
+ */
+function splitParagraphs(node: SimplifiedNode): Paragraph[] {
+  const paragraphs: Paragraph[] = [{ segments: [] }];
+  for (const segment of node.textSegments ?? [{ text: node.text ?? "" }]) {
+    segment.text.split("\n").forEach((text, i) => {
+      if (i > 0) paragraphs.push({ segments: [] });
+      if (text) paragraphs[paragraphs.length - 1].segments.push({ ...segment, text });
+    });
+  }
+  paragraphs.forEach((paragraph, i) => (paragraph.line = node.textLines?.[i]));
+  return paragraphs;
+}
+
+/**
+ * Whether a text node needs an element per paragraph: for lists, and for spacing between
+ * paragraphs. Line clamping needs the text in one block, so it keeps the single element
+ */
+function usesParagraphs(context: RenderContext, node: SimplifiedNode): boolean {
+  if (node.type !== "TEXT") return false;
+  const style = lookup<TextStyle>(context, node.textStyle);
+  if (style?.lineClamp) return false;
+  return !!node.textLines || (!!style?.paragraphSpacing && !!node.text?.includes("\n"));
+}
+
+function buildStyleAttribute(
+  context: RenderContext,
+  name: string,
+  declarations: Declarations,
+): string {
+  if (!Object.keys(declarations).length) return "";
+
+  if (context.styleMode === "inline") {
+    const entries = Object.entries(declarations).map(
+      ([property, value]) => `${property}: ${JSON.stringify(value)}`,
+    );
+    return ` style={{ ${entries.join(", ")} }}`;
+  }
+
+  const base = toCamelCase(name) || "node";
+  let className = base;
+  for (let i = 2; context.classNames.has(className); i++) className = `${base}${i}`;
+  context.classNames.add(className);
+  context.rules.push({ className, declarations });
+  return ` className={styles.${className}}`;
+}
+
+function buildDeclarations(
+  context: RenderContext,
+  node: SimplifiedNode,
+  parent: SimplifiedNode | undefined,
+): Declarations {
+  const declarations: Declarations = {};
+  const layout = lookup<SimplifiedLayout>(context, node.layout);
+  const parentLayout = parent && lookup<SimplifiedLayout>(context, parent.layout);
+
+  if (layout) {
+    if (layout.mode === "grid") {
+      declarations.display = "grid";
+      if (layout.gridTemplateColumns) declarations.gridTemplateColumns = layout.gridTemplateColumns;
+      if (layout.gridTemplateRows) declarations.gridTemplateRows = layout.gridTemplateRows;
+    } else if (layout.mode !== "none") {
+      declarations.display = "flex";
+      declarations.flexDirection = layout.mode;
+    }
+    if (layout.justifyContent) declarations.justifyContent = layout.justifyContent;
+    if (layout.alignItems) declarations.alignItems = layout.alignItems;
+    if (layout.alignContent) declarations.alignContent = layout.alignContent;
+    if (layout.alignSelf) declarations.alignSelf = layout.alignSelf;
+    if (layout.justifySelf) declarations.justifySelf = layout.justifySelf;
+    if (layout.gridColumn) declarations.gridColumn = layout.gridColumn;
+    if (layout.gridRow) declarations.gridRow = layout.gridRow;
+    if (layout.wrap) declarations.flexWrap = "wrap";
+    if (layout.gap) declarations.gap = layout.gap;
+    if (layout.padding) declarations.padding = layout.padding;
+    if (layout.boxSizing) declarations.boxSizing = layout.boxSizing;
+
+    const parentMode = parentLayout?.mode ?? "none";
+    if (layout.sizing?.horizontal === "fill") {
+      if (parentMode === "row") declarations.flexGrow = 1;
+      else declarations.alignSelf = "stretch";
+    }
+    if (layout.sizing?.vertical === "fill") {
+      if (parentMode === "column") declarations.flexGrow = 1;
+      else declarations.alignSelf = "stretch";
+    }
+    if (layout.dimensions?.width !== undefined) declarations.width = px(layout.dimensions.width);
+    if (layout.dimensions?.height !== undefined) declarations.height = px(layout.dimensions.height);
+    if (layout.dimensions?.aspectRatio) {
+      declarations.aspectRatio = round(layout.dimensions.aspectRatio);
+    }
+    for (const key of ["minWidth", "maxWidth", "minHeight", "maxHeight"] as const) {
+      const value = layout.dimensions?.[key];
+      if (value !== undefined) declarations[key] = px(value);
+    }
+
+    if (layout.offsets) {
+      declarations.position = "absolute";
+      Object.assign(declarations, layout.offsets);
+    } else if (layout.locationRelativeToParent) {
+      declarations.position = "absolute";
+      declarations.left = px(layout.locationRelativeToParent.x);
+      declarations.top = px(layout.locationRelativeToParent.y);
+    } else if (layout.position) {
+      declarations.position = layout.position;
+    }
+    if (layout.overflowScroll?.includes("x")) declarations.overflowX = "auto";
+    if (layout.overflowScroll?.includes("y")) declarations.overflowY = "auto";
+  }
+  // Absolutely positioned children are placed relative to this node
+  if (node.children?.some((child) => isPositioned(context, child))) {
+    declarations.position ??= "relative";
+  }
+
+  // Fills are listed topmost first. Text takes the topmost color, other nodes layer all of them
+  const fills = getFills(context, node);
+  if (node.type === "TEXT") {
+    const color = fills.find(
+      (fill): fill is CSSHexColor | CSSRGBAColor =>
+        typeof fill === "string" && !fill.includes("gradient("),
+    );
+    if (color) declarations.color = color;
+  } else if (fills.length === 1 && typeof fills[0] === "string" && !fills[0].includes("(")) {
+    declarations.backgroundColor = fills[0];
+  } else {
+    const background = buildCSSBackground(fills);
+    if (background) declarations.background = background;
+  }
+
+  const strokes = lookup<SimplifiedStroke>(context, node.strokes);
+  const strokeColor = strokes?.colors.find((color) => typeof color === "string");
+  if (strokes && strokeColor) {
+    const strokeStyle = strokes.strokeDashes?.length ? "dashed" : "solid";
+    const strokeWeight = strokes.strokeWeight ?? "1px";
+    if (layout && layout.mode !== "none" && !layout.boxSizing) {
+      // Strokes left out of auto layout don't push the content in, which an inset outline matches
+      declarations.outline = `${strokeWeight} ${strokeStyle} ${strokeColor}`;
+      declarations.outlineOffset = `-${strokeWeight}`;
+    } else {
+      declarations.borderStyle = strokeStyle;
+      declarations.borderWidth = strokeWeight;
+      declarations.borderColor = strokeColor as string;
+    }
+  }
+  if (node.borderRadius) declarations.borderRadius = node.borderRadius;
+
+  const effects = lookup<SimplifiedEffects>(context, node.effects);
+  if (effects?.boxShadow && node.type !== "TEXT") declarations.boxShadow = effects.boxShadow;
+  if (effects?.filter) declarations.filter = effects.filter;
+  if (effects?.backdropFilter) declarations.backdropFilter = effects.backdropFilter;
+
+  const textStyle = lookup<TextStyle>(context, node.textStyle);
+  if (textStyle) Object.assign(declarations, buildTextDeclarations(textStyle));
+  if (usesParagraphs(context, node)) {
+    declarations.display = "flex";
+    declarations.flexDirection = "column";
+    if (textStyle?.paragraphSpacing) declarations.rowGap = textStyle.paragraphSpacing;
+  } else if (node.type === "TEXT") {
+    declarations.margin = 0;
+    // Keep the text's own line breaks
+    if (node.text?.includes("\n")) {
+      declarations.whiteSpace = declarations.whiteSpace === "nowrap" ? "pre" : "pre-wrap";
+    }
+  }
+
+  if (node.opacity !== undefined) declarations.opacity = node.opacity;
+  return declarations;
+}
+
+function buildTextDeclarations(style: TextStyle): Declarations {
+  const declarations: Declarations = {};
+  if (style.fontFamily) declarations.fontFamily = style.fontFamily;
+  if (style.fontWeight) declarations.fontWeight = style.fontWeight;
+  if (style.fontSize) declarations.fontSize = px(style.fontSize);
+  if (style.fontStyle) declarations.fontStyle = style.fontStyle;
+  if (style.lineHeight) declarations.lineHeight = style.lineHeight;
+  if (style.letterSpacing) {
+    declarations.letterSpacing = `${round(parseFloat(style.letterSpacing) / 100)}em`;
+  }
+  if (style.textCase && TEXT_CASE[style.textCase]) {
+    declarations.textTransform = TEXT_CASE[style.textCase];
+  }
+  if (style.textAlignHorizontal && TEXT_ALIGN[style.textAlignHorizontal]) {
+    declarations.textAlign = TEXT_ALIGN[style.textAlignHorizontal];
+  }
+  if (style.textDecoration) declarations.textDecoration = style.textDecoration;
+  if (style.textIndent) declarations.textIndent = style.textIndent;
+  if (style.whiteSpace) declarations.whiteSpace = style.whiteSpace;
+  if (style.textOverflow) {
+    declarations.overflow = "hidden";
+    declarations.textOverflow = style.textOverflow;
+  }
+  if (style.lineClamp) {
+    declarations.display = "-webkit-box";
+    declarations.WebkitBoxOrient = "vertical";
+    declarations.WebkitLineClamp = style.lineClamp;
+    declarations.overflow = "hidden";
+  }
+  return declarations;
+}
+
+function lookup<T>({ design }: RenderContext, id: string | undefined): T | undefined {
+  return id ? (design.globalVars.styles[id as StyleId] as T) : undefined;
+}
+
+function getFills(context: RenderContext, node: SimplifiedNode): SimplifiedFill[] {
+  return lookup<SimplifiedFill[]>(context, node.fills) ?? [];
+}
+
+function isPositioned(context: RenderContext, node: SimplifiedNode): boolean {
+  const layout = lookup<SimplifiedLayout>(context, node.layout);
+  return !!(layout?.offsets || layout?.locationRelativeToParent);
+}
+
+function px(value: number): string {
+  return `${round(value)}px`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function splitWords(value: string): string[] {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function toPascalCase(value: string): string {
+  const name = splitWords(value)
+    .map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join("");
+  // Identifiers can't start with a digit
+  return /^[0-9]/.test(name) ? `Figma${name}` : name;
+}
+
+function toCamelCase(value: string): string {
+  const pascal = toPascalCase(value);
+  return pascal && pascal[0].toLowerCase() + pascal.slice(1);
+}
+
+function toCSSProperty(property: string): string {
+  // Vendor prefixed properties are capitalized in React, e.g. WebkitLineClamp
+  return /^[A-Z]/.test(property) ? `-${toKebabCase(property)}` : toKebabCase(property);
+}
+
+function toKebabCase(value: string): string {
+  return splitWords(value)
+    .map((word) => word.toLowerCase())
+    .join("-");
+}
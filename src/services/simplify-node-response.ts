@@ -5,11 +5,48 @@ import type {
   Paint,
   Vector,
   GetFileResponse,
+  Style,
+  Component,
+  ComponentSet,
+  TypeStyle,
 } from "@figma/rest-api-spec";
-import { hasValue, isRectangleCornerRadii, isTruthy } from "~/utils/identity.js";
-import { removeEmptyKeys, generateVarId, StyleId, parsePaint, isVisible } from "~/utils/common.js";
+import { hasValue, isRectangle, isRectangleCornerRadii, isTruthy } from "~/utils/identity.js";
+import {
+  removeEmptyKeys,
+  generateVarId,
+  generateNamedVarId,
+  stableStringify,
+  StyleId,
+  parsePaint,
+  isVisible,
+} from "~/utils/common.js";
 import { buildSimplifiedStrokes, SimplifiedStroke } from "~/transformers/style.js";
 import { buildSimplifiedEffects, SimplifiedEffects } from "~/transformers/effects.js";
+import {
+  buildSimplifiedTextStyle,
+  buildTextLines,
+  buildTextSegments,
+  TextLine,
+  TextSegment,
+  TextStyle,
+} from "~/transformers/text.js";
+import {
+  buildComponentInstance,
+  collectComponentPropertyDefinitions,
+  ComponentPropertyDefinitions,
+  isPristineInstance,
+  SimplifiedComponentDefinition,
+  SimplifiedComponentSetDefinition,
+  simplifyComponents,
+  simplifyComponentSets,
+} from "~/transformers/component.js";
+import {
+  FigmaVariables,
+  getBoundVariableIds,
+  getExplicitModes,
+  SimplifiedVariable,
+  simplifyVariable,
+} from "~/transformers/variables.js";
 /**
  * TODO ITEMS
  *
@@ -17,21 +54,10 @@ import { buildSimplifiedEffects, SimplifiedEffects } from "~/transformers/effect
  * - Pull image fills/vectors out to top level for better AI visibility
  *   ? Implement vector parents again for proper downloads
  * ? Look up existing styles in new MCP endpoint—Figma supports individual lookups without enterprise /v1/styles/:key
- * ? Parse out and save .cursor/rules/design-tokens file on command
  **/
 
 // -------------------- SIMPLIFIED STRUCTURES --------------------
 
-export type TextStyle = Partial<{
-  fontFamily: string;
-  fontWeight: number;
-  fontSize: number;
-  lineHeight: string;
-  letterSpacing: string;
-  textCase: string;
-  textAlignHorizontal: string;
-  textAlignVertical: string;
-}>;
 export type StrokeWeights = {
   top: number;
   right: number;
@@ -47,11 +73,121 @@ type StyleTypes =
   | string;
 type GlobalVars = {
   styles: Record<StyleId, StyleTypes>;
+  /**
+   * Figma Variables the nodes are bound to, only present if any are
+   */
+  variables?: Record<StyleId, SimplifiedVariable>;
+  /**
+   * Names of the shared Figma styles variables stand for, only present if any are used. Styles
+   * with the same value share a variable, so a variable can stand for several
+   */
+  styleNames?: Record<StyleId, string[]>;
+};
+
+/**
+ * Node properties that can come from a shared Figma style
+ */
+export type StyledProperty = "textStyle" | "fills" | "strokes" | "effects" | "grid";
+
+type SharedStyleUsage = {
+  node: SimplifiedNode;
+  property: Exclude<StyledProperty, "grid">;
+  /**
+   * The Figma node the simplified node was built from
+   */
+  raw: FigmaDocumentNode;
+};
+
+export type ParseOptions = {
+  /**
+   * Name variables after the shared Figma style a value comes from (e.g. fill_primary_blue)
+   * instead of a hash of the value. Defaults to true
+   */
+  namedStyleIds?: boolean;
+  /**
+   * The file's variables. If set, bound variables are resolved into globalVars.variables
+   */
+  variables?: FigmaVariables;
+  /**
+   * Leave out the children of instances that don't override anything in their main component.
+   * Defaults to false
+   */
+  collapseInstances?: boolean;
+  /**
+   * Component and component set nodes outside the response, whose property defaults tell
+   * whether instances changed any component property
+   */
+  componentNodes?: FigmaDocumentNode[];
+  /**
+   * Keep Figma's raw gradient handles and stops next to the CSS gradient. Defaults to false
+   */
+  rawPaints?: boolean;
+  /**
+   * The nodes defining the file's shared styles, by style ID. If set, nodes whose value for a
+   * styled property differs from their style's are flagged in styleOverrides
+   */
+  styleNodes?: Record<string, FigmaDocumentNode>;
+};
+
+type ParseContext = {
+  globalVars: GlobalVars;
+  /**
+   * The file's shared styles, by style ID
+   */
+  styles: Record<string, Style>;
+  /**
+   * The file's components, by node ID
+   */
+  components: Record<string, Component>;
+  /**
+   * Property definitions of the components, by node ID. Only collected to collapse instances
+   */
+  componentDefinitions: ComponentPropertyDefinitions;
+  /**
+   * Variable IDs by the canonical serialization of their value, prefixed with the style name for
+   * variables named after a style, for constant-time deduplication
+   */
+  styleIndex: Map<string, StyleId>;
+  /**
+   * Number of node properties referencing each variable, so variables left unused once nodes are
+   * moved to their style's variable can be dropped
+   */
+  styleRefs: Map<StyleId, number>;
+  /**
+   * IDs in globalVars.variables by Figma variable ID
+   */
+  variableIndex: Map<string, StyleId>;
+  /**
+   * Every node property bound to a shared style, by style ID, for detecting overrides
+   */
+  styleUsages: Map<string, SharedStyleUsage[]>;
+  styleNodes?: Record<string, FigmaDocumentNode>;
+  variables?: FigmaVariables;
+  options: Required<Pick<ParseOptions, "namedStyleIds" | "collapseInstances" | "rawPaints">>;
 };
 export interface SimplifiedDesign {
   name: string;
   lastModified: string;
+  /**
+   * ID of the version the design was read at, as listed by the file's version history
+   */
+  version?: string;
   thumbnailUrl: string;
+  /**
+   * Components and component sets used in the response, by node ID
+   */
+  components?: Record<string, SimplifiedComponentDefinition>;
+  componentSets?: Record<string, SimplifiedComponentSetDefinition>;
+  /**
+   * Set when a saved version was read with variables resolved. Variables have no history, so
+   * their values are the file's current ones rather than the version's
+   */
+  currentVariableValues?: boolean;
+  /**
+   * Set by applyTokenBudget when the top-level nodes alone don't fit the budget. They are returned
+   * anyway, with all of their children left out
+   */
+  tokenBudgetExceeded?: { maxTokens: number; estimatedTokens: number };
   nodes: SimplifiedNode[];
   globalVars: GlobalVars;
 }
@@ -65,13 +201,45 @@ export interface SimplifiedNode {
   // text
   text?: string;
   textStyle?: string;
+  /**
+   * Runs of differently styled characters, only present for mixed-style text
+   */
+  textSegments?: TextSegment[];
+  /**
+   * List style of each line, only present if the text contains a list
+   */
+  textLines?: TextLine[];
   // appearance
   fills?: string;
-  styles?: string;
+  /**
+   * Names of the shared styles the node uses, by property
+   */
+  styles?: Partial<Record<StyledProperty, string>>;
+  /**
+   * Properties bound to a shared style whose values were changed by hand on this node
+   */
+  styleOverrides?: StyledProperty[];
   strokes?: string;
   effects?: string;
   opacity?: number;
   borderRadius?: string;
+  // components
+  componentId?: string;
+  variant?: Record<string, string>;
+  componentProperties?: Record<string, string | boolean>;
+  /**
+   * Children were left out because the instance is identical to its main component. Library
+   * components (remote in components) live in another file, so their instances need fetching
+   * again without collapseInstances
+   */
+  collapsed?: boolean;
+  /**
+   * Children were left out to fit the token budget. Fetch this node's ID to see them
+   */
+  truncated?: TruncatedSubtree;
+  // variables
+  variables?: Record<string, StyleId | StyleId[]>;
+  variableModes?: Record<string, string>;
   // layout & alignment
   layout?: string;
   // backgroundColor?: ColorValue; // Deprecated by Figma API
@@ -80,6 +248,15 @@ export interface SimplifiedNode {
   children?: SimplifiedNode[];
 }
 
+export interface TruncatedSubtree {
+  childCount: number;
+  /**
+   * Number of nodes in the subtree, not counting the truncated node
+   */
+  nodeCount: number;
+  summary: string;
+}
+
 export interface BoundingBox {
   x: number;
   y: number;
@@ -89,6 +266,7 @@ export interface BoundingBox {
 
 export type CSSRGBAColor = `rgba(${number}, ${number}, ${number}, ${number})`;
 export type CSSHexColor = `#${string}`;
+export type CSSGradient = `${"linear" | "radial" | "conic"}-gradient(${string})`;
 export type SimplifiedFill =
   | {
       type?: Paint["type"];
@@ -97,6 +275,13 @@ export type SimplifiedFill =
       opacity?: number;
       imageRef?: string;
       scaleMode?: string;
+      backgroundSize?: string;
+      backgroundRepeat?: string;
+      backgroundPosition?: string;
+      /**
+       * The gradient as CSS, given next to the raw handles and stops when rawPaints is set
+       */
+      gradient?: CSSGradient;
       gradientHandlePositions?: Vector[];
       gradientStops?: {
         position: number;
@@ -104,7 +289,8 @@ export type SimplifiedFill =
       }[];
     }
   | CSSRGBAColor
-  | CSSHexColor;
+  | CSSHexColor
+  | CSSGradient;
 
 export interface ColorValue {
   hex: string;
@@ -112,26 +298,66 @@ export interface ColorValue {
 }
 
 // ---------------------- PARSING ----------------------
-export function parseFigmaResponse(data: GetFileResponse | GetFileNodesResponse): SimplifiedDesign {
-  const { name, lastModified, thumbnailUrl } = data;
+export function parseFigmaResponse(
+  data: GetFileResponse | GetFileNodesResponse,
+  {
+    namedStyleIds = true,
+    variables,
+    collapseInstances = false,
+    componentNodes = [],
+    rawPaints = false,
+    styleNodes,
+  }: ParseOptions = {},
+): SimplifiedDesign {
+  const { name, lastModified, thumbnailUrl, version } = data;
   let nodes: FigmaDocumentNode[];
+  let styles: Record<string, Style>;
+  let components: Record<string, Component>;
+  let componentSets: Record<string, ComponentSet>;
   if ("document" in data) {
     nodes = Object.values(data.document.children);
+    styles = data.styles;
+    components = data.components;
+    componentSets = data.componentSets;
   } else {
     nodes = Object.values(data.nodes).map((n) => n.document);
+    styles = Object.assign({}, ...Object.values(data.nodes).map((n) => n.styles));
+    components = Object.assign({}, ...Object.values(data.nodes).map((n) => n.components));
+    componentSets = Object.assign({}, ...Object.values(data.nodes).map((n) => n.componentSets));
   }
-  let globalVars: GlobalVars = {
+  const globalVars: GlobalVars = {
     styles: {},
   };
+  const context: ParseContext = {
+    globalVars,
+    styles,
+    components: components ?? {},
+    componentDefinitions: collapseInstances
+      ? collectComponentPropertyDefinitions([...nodes, ...componentNodes])
+      : {},
+    styleIndex: new Map(),
+    styleRefs: new Map(),
+    variableIndex: new Map(),
+    styleUsages: new Map(),
+    styleNodes,
+    variables,
+    options: { namedStyleIds, collapseInstances, rawPaints },
+  };
   const simplifiedNodes: SimplifiedNode[] = nodes
     .filter(isVisible)
-    .map((n) => parseNode(globalVars, n))
+    .map((n) => parseNode(context, n))
     .filter((child) => child !== null && child !== undefined);
+  resolveSharedStyles(context);
 
   return {
     name,
     lastModified,
+    ...(version && { version }),
     thumbnailUrl: thumbnailUrl || "",
+    ...removeEmptyKeys({
+      components: simplifyComponents(components ?? {}),
+      componentSets: simplifyComponentSets(componentSets ?? {}),
+    }),
     nodes: simplifiedNodes,
     globalVars,
   };
@@ -157,30 +383,191 @@ const findNodeById = (id: string, nodes: SimplifiedNode[]): SimplifiedNode | und
 
 /**
  * Find or create global variables
- * @param globalVars - Global variables object
+ * @param context - Parse context holding the global variables
  * @param value - Value to store
  * @param prefix - Variable ID prefix
+ * @param styleName - Name of the shared Figma style the value is the style's own value of, if any.
+ * Values only share a variable with values of the same style
  * @returns Variable ID
  */
-function findOrCreateVar(globalVars: GlobalVars, value: any, prefix: string): StyleId {
+function findOrCreateVar(
+  { globalVars, styleIndex, styleRefs, options }: ParseContext,
+  value: any,
+  prefix: string,
+  styleName?: string,
+): StyleId {
   // Check if the same value already exists
-  const [existingVarId] =
-    Object.entries(globalVars.styles).find(
-      ([_, existingValue]) => JSON.stringify(existingValue) === JSON.stringify(value),
-    ) ?? [];
+  const canonicalValue = stableStringify(value);
+  const indexKey = styleName ? `${styleName}\n${canonicalValue}` : canonicalValue;
+  const existingVarId = styleIndex.get(indexKey);
 
   if (existingVarId) {
-    return existingVarId as StyleId;
+    styleRefs.set(existingVarId, styleRefs.get(existingVarId)! + 1);
+    return existingVarId;
   }
 
-  // Create a new variable if it doesn't exist
-  const varId = generateVarId(prefix);
-  globalVars.styles[varId] = value;
+  // Create a new variable if it doesn't exist. IDs are derived from the value (or its style name)
+  // so the same design always produces the same IDs
+  let varId = (options.namedStyleIds && styleName && generateNamedVarId(prefix, styleName)) || "";
+  if (!varId || varId in globalVars.styles) {
+    // Lengthen the hash until it no longer collides with a different value
+    for (let length = 6; !varId || varId in globalVars.styles; length++) {
+      varId = generateVarId(prefix, value, length);
+    }
+  }
+  globalVars.styles[varId as StyleId] = value;
+  styleIndex.set(indexKey, varId as StyleId);
+  styleRefs.set(varId as StyleId, 1);
+  return varId as StyleId;
+}
+
+/**
+ * Drop one reference to a variable created without a style name, and the variable with it once
+ * nothing references it anymore
+ */
+function releaseVar({ globalVars, styleIndex, styleRefs }: ParseContext, varId: StyleId): void {
+  const refs = styleRefs.get(varId)! - 1;
+  styleRefs.set(varId, refs);
+  if (refs > 0) return;
+  styleIndex.delete(stableStringify(globalVars.styles[varId]));
+  styleRefs.delete(varId);
+  delete globalVars.styles[varId];
+}
+
+/**
+ * Find or create the global variable for a Figma Variable
+ * @param context - Parse context holding the global variables and the file's Figma Variables
+ * @param variableId - The Figma variable ID
+ * @returns Variable ID, or undefined if the variable is unknown
+ */
+function findOrCreateVariableVar(context: ParseContext, variableId: string): StyleId | undefined {
+  const existingVarId = context.variableIndex.get(variableId);
+  if (existingVarId) return existingVarId;
+
+  const variable = context.variables && simplifyVariable(variableId, context.variables);
+  if (!variable) return undefined;
+
+  const variables = (context.globalVars.variables ??= {});
+  let varId = generateNamedVarId("var", variable.name);
+  if (!varId || varId in variables) {
+    for (let length = 6; !varId || varId in variables; length++) {
+      varId = generateVarId("var", variableId, length);
+    }
+  }
+  variables[varId] = variable;
+  context.variableIndex.set(variableId, varId);
   return varId;
 }
 
+/**
+ * Look up the shared style a node uses for the given property
+ * @param context - Parse context holding the file's styles
+ * @param n - The node
+ * @param keys - Keys of the node's styles map to check, e.g. ["fill", "fills"]
+ */
+function getSharedStyle(
+  { styles }: ParseContext,
+  n: FigmaDocumentNode,
+  ...keys: string[]
+): { styleId: string; name: string } | undefined {
+  if (!hasValue("styles", n)) return undefined;
+  const nodeStyles = n.styles as Record<string, string>;
+  for (const key of keys) {
+    const styleId = nodeStyles[key];
+    if (styleId && styles[styleId]) return { styleId, name: styles[styleId].name };
+  }
+  return undefined;
+}
+
+/**
+ * Variable ID prefixes of the properties shared styles apply to
+ */
+const STYLED_PROPERTY_PREFIXES: Record<SharedStyleUsage["property"], string> = {
+  textStyle: "style",
+  fills: "fill",
+  strokes: "stroke",
+  effects: "effect",
+};
+
+/**
+ * Name the variables shared styles resolve to, and flag nodes whose value for a styled property
+ * differs from the style's own value, as read from the node defining the style. Without that node
+ * overrides can't be told apart, so the style only names a variable if all its nodes agree.
+ * Nodes keeping their style's value are moved to a variable of that style, so overridden and
+ * unstyled nodes never share a variable named after a style
+ * @param context - Parse context holding the recorded style usages
+ */
+function resolveSharedStyles(context: ParseContext): void {
+  const { globalVars, styles, styleUsages, styleNodes, options } = context;
+  for (const [styleId, usages] of styleUsages) {
+    const styleNode = styleNodes?.[styleId];
+    let named = usages;
+    if (styleNode) {
+      named = usages.filter(({ node, raw, property }) => {
+        const overridden =
+          stableStringify(getStyledValue(raw, property)) !==
+          stableStringify(getStyledValue(styleNode, property));
+        if (overridden) (node.styleOverrides ??= []).push(property);
+        return !overridden;
+      });
+    } else if (new Set(usages.map(({ node, property }) => node[property])).size > 1) {
+      continue;
+    }
+
+    for (const { node, property } of named) {
+      const varId = node[property] as StyleId;
+      if (options.namedStyleIds) {
+        node[property] = findOrCreateVar(
+          context,
+          globalVars.styles[varId],
+          STYLED_PROPERTY_PREFIXES[property],
+          styles[styleId].name,
+        );
+        releaseVar(context, varId);
+      }
+      const names = ((globalVars.styleNames ??= {})[node[property] as StyleId] ??= []);
+      if (!names.includes(styles[styleId].name)) names.push(styles[styleId].name);
+    }
+  }
+}
+
+/**
+ * Typographic fields a text style defines. Alignment and sizing belong to the text node
+ */
+const TEXT_STYLE_FIELDS = [
+  "fontFamily",
+  "fontWeight",
+  "fontSize",
+  "italic",
+  "lineHeightPx",
+  "letterSpacing",
+  "textCase",
+  "textDecoration",
+  "paragraphSpacing",
+  "paragraphIndent",
+] as const satisfies (keyof TypeStyle)[];
+
+/**
+ * Read the raw Figma value a shared style sets for a property, for comparing nodes to the style
+ */
+function getStyledValue(n: FigmaDocumentNode, property: SharedStyleUsage["property"]): unknown {
+  switch (property) {
+    case "textStyle":
+      if (!hasValue("style", n)) return undefined;
+      return Object.fromEntries(
+        TEXT_STYLE_FIELDS.map((field) => [field, (n.style as TypeStyle)[field]]),
+      );
+    case "fills":
+    case "strokes":
+    case "effects": {
+      const values = (n as Record<string, unknown>)[property];
+      return Array.isArray(values) ? values.filter(isVisible) : undefined;
+    }
+  }
+}
+
 function parseNode(
-  globalVars: GlobalVars,
+  context: ParseContext,
   n: FigmaDocumentNode,
   parent?: FigmaDocumentNode,
 ): SimplifiedNode | null {
@@ -191,55 +578,75 @@ function parseNode(
     name,
     type,
   };
+  const sharedStyles: { property: SharedStyleUsage["property"]; styleId: string }[] = [];
+  const useSharedStyle = (
+    property: SharedStyleUsage["property"],
+    style?: { styleId: string; name: string },
+  ): void => {
+    if (!style) return;
+    (simplified.styles ??= {})[property] = style.name;
+    sharedStyles.push({ property, styleId: style.styleId });
+  };
 
   // text
   if (hasValue("style", n) && Object.keys(n.style).length) {
-    const style = n.style;
-    const textStyle = {
-      fontFamily: style.fontFamily,
-      fontWeight: style.fontWeight,
-      fontSize: style.fontSize,
-      lineHeight:
-        style.lineHeightPx && style.fontSize
-          ? `${style.lineHeightPx / style.fontSize}em`
-          : undefined,
-      letterSpacing:
-        style.letterSpacing && style.letterSpacing !== 0 && style.fontSize
-          ? `${(style.letterSpacing / style.fontSize) * 100}%`
-          : undefined,
-      textCase: style.textCase,
-      textAlignHorizontal: style.textAlignHorizontal,
-      textAlignVertical: style.textAlignVertical,
-    };
-    simplified.textStyle = findOrCreateVar(globalVars, textStyle, "style");
+    const textStyle = buildSimplifiedTextStyle(n.style);
+    simplified.textStyle = findOrCreateVar(context, textStyle, "style");
+    useSharedStyle("textStyle", getSharedStyle(context, n, "text"));
   }
 
   // fills & strokes
   if (hasValue("fills", n) && Array.isArray(n.fills) && n.fills.length) {
-    // const fills = simplifyFills(n.fills.map(parsePaint));
-    const fills = n.fills.map(parsePaint);
-    simplified.fills = findOrCreateVar(globalVars, fills, "fill");
+    // Figma lists fills bottom to top, CSS background layers go top to bottom
+    const size = isRectangle("absoluteBoundingBox", n) ? n.absoluteBoundingBox : undefined;
+    const fills = n.fills
+      .filter(isVisible)
+      .map((paint) => parsePaint(paint, { size, raw: context.options.rawPaints }))
+      .reverse();
+    simplified.fills = findOrCreateVar(context, fills, "fill");
+    useSharedStyle("fills", getSharedStyle(context, n, "fill", "fills"));
   }
 
   const strokes = buildSimplifiedStrokes(n);
   if (strokes.colors.length) {
-    simplified.strokes = findOrCreateVar(globalVars, strokes, "stroke");
+    simplified.strokes = findOrCreateVar(context, strokes, "stroke");
+    useSharedStyle("strokes", getSharedStyle(context, n, "stroke", "strokes"));
   }
 
   const effects = buildSimplifiedEffects(n);
   if (Object.keys(effects).length) {
-    simplified.effects = findOrCreateVar(globalVars, effects, "effect");
+    simplified.effects = findOrCreateVar(context, effects, "effect");
+    useSharedStyle("effects", getSharedStyle(context, n, "effect", "effects"));
   }
 
+  // Layout grids aren't simplified, but the agent can still use the grid style's name
+  const gridStyle = getSharedStyle(context, n, "grid", "grids");
+  if (gridStyle) (simplified.styles ??= {}).grid = gridStyle.name;
+
   // Process layout
   const layout = buildSimplifiedLayout(n, parent);
   if (Object.keys(layout).length > 1) {
-    simplified.layout = findOrCreateVar(globalVars, layout, "layout");
+    simplified.layout = findOrCreateVar(context, layout, "layout");
+  }
+
+  // variables
+  if (context.variables) {
+    const bound: Record<string, StyleId | StyleId[]> = {};
+    for (const [property, ids] of Object.entries(getBoundVariableIds(n))) {
+      const varIds = (Array.isArray(ids) ? ids : [ids])
+        .map((id) => findOrCreateVariableVar(context, id))
+        .filter((varId): varId is StyleId => !!varId);
+      if (varIds.length) bound[property] = varIds.length === 1 ? varIds[0] : varIds;
+    }
+    if (Object.keys(bound).length) simplified.variables = bound;
+    simplified.variableModes = getExplicitModes(n, context.variables);
   }
 
   // Keep other simple properties directly
   if (hasValue("characters", n, isTruthy)) {
     simplified.text = n.characters;
+    simplified.textSegments = buildTextSegments(n);
+    simplified.textLines = buildTextLines(n);
   }
 
   // border/corner
@@ -256,11 +663,20 @@ function parseNode(
     simplified.borderRadius = `${n.rectangleCornerRadii[0]}px ${n.rectangleCornerRadii[1]}px ${n.rectangleCornerRadii[2]}px ${n.rectangleCornerRadii[3]}px`;
   }
 
+  // components
+  const instance = buildComponentInstance(n, context.components);
+  if (instance) Object.assign(simplified, instance);
+  const collapsed =
+    context.options.collapseInstances && isPristineInstance(n, context.componentDefinitions);
+  if (collapsed && hasValue("children", n) && n.children.length > 0) {
+    simplified.collapsed = true;
+  }
+
   // Recursively process child nodes
-  if (hasValue("children", n) && n.children.length > 0) {
+  if (!collapsed && hasValue("children", n) && n.children.length > 0) {
     let children = n.children
       .filter(isVisible)
-      .map((child) => parseNode(globalVars, child, n))
+      .map((child) => parseNode(context, child, n))
       .filter((child) => child !== null && child !== undefined);
     if (children.length) {
       simplified.children = children;
@@ -272,5 +688,14 @@ function parseNode(
     simplified.type = "IMAGE-SVG";
   }
 
-  return removeEmptyKeys(simplified);
+  // Children were already cleaned when they were parsed, so only clean this node's own fields
+  const { children, ...fields } = simplified;
+  const cleaned = removeEmptyKeys(fields) as SimplifiedNode;
+  if (children) cleaned.children = children;
+  for (const { styleId, property } of sharedStyles) {
+    const usages = context.styleUsages.get(styleId) ?? [];
+    usages.push({ node: cleaned, property, raw: n });
+    context.styleUsages.set(styleId, usages);
+  }
+  return cleaned;
 }
@@ -0,0 +1,205 @@
+import * as yaml from "js-yaml";
+import type {
+  SimplifiedDesign,
+  SimplifiedNode,
+  TruncatedSubtree,
+} from "./simplify-node-response.js";
+import { formatDesign, type OutputFormat } from "./output-format.js";
+
+const SUMMARY_NODE_TYPES = 4;
+const SUMMARY_TEXTS = 3;
+const SUMMARY_TEXT_LENGTH = 30;
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count of a design once formatted, at about four characters per token
+ */
+export function estimateTokens(design: SimplifiedDesign, format: OutputFormat = "yaml"): number {
+  return Math.ceil(formatDesign(design, format).length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fit a design into a token budget. Nodes are expanded breadth first, and a node whose children
+ * don't fit is kept as a stub with its child count and a summary, so its subtree can be fetched
+ * by ID in a follow-up call. Top-level nodes are always included, and tokenBudgetExceeded is set
+ * when they alone don't fit
+ * @param format - The format the design will be returned in, which the budget is measured in
+ * @returns The design unchanged if it already fits, otherwise a truncated copy with globalVars
+ * reduced to what the remaining nodes reference
+ */
+export function applyTokenBudget(
+  design: SimplifiedDesign,
+  maxTokens: number,
+  format: OutputFormat = "yaml",
+): SimplifiedDesign {
+  if (estimateTokens(design, format) <= maxTokens) return design;
+
+  const { nodes, globalVars, ...metadata } = design;
+  const styles = globalVars.styles as Record<string, unknown>;
+  const variables = (globalVars.variables ?? {}) as Record<string, unknown>;
+  const usedStyles = new Set<string>();
+  const usedVariables = new Set<string>();
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  // yaml and json are costed node by node. outline and markdown don't map nodes to text one to
+  // one, markdown summarizing the whole tree, so they are measured by formatting what's included
+  const measured = format === "yaml" || format === "json" ? format : undefined;
+  const formattedLength = () =>
+    formatDesign({ ...metadata, nodes: roots.map(({ copy }) => copy), globalVars }, format).length;
+  // Everything but the nodes and the values they reference
+  let used = measured
+    ? formatDesign(
+        {
+          ...metadata,
+          nodes: [],
+          globalVars: { styles: {}, ...(globalVars.variables && { variables: {} }) },
+        },
+        measured,
+      ).length
+    : 0;
+
+  type Refs = { styles: Set<string>; variables: Set<string> };
+
+  // Copy a node without its children, stubbed if it has any, and cost it along with the style
+  // and variable values it is the first to reference
+  const include = (node: SimplifiedNode, depth: number, pending: Refs) => {
+    const { children, ...copy } = node as SimplifiedNode;
+    if (children?.length) copy.truncated = summarizeSubtree(children);
+    let cost = measured ? measure(copy, measured, depth) : 0;
+
+    for (const id of getStyleRefs(copy)) {
+      if (id in styles && !usedStyles.has(id) && !pending.styles.has(id)) {
+        pending.styles.add(id);
+        if (measured) cost += measure({ [id]: styles[id] }, measured);
+      }
+    }
+    for (const id of getVariableRefs(copy)) {
+      if (id in variables && !usedVariables.has(id) && !pending.variables.has(id)) {
+        pending.variables.add(id);
+        if (measured) cost += measure({ [id]: variables[id] }, measured);
+      }
+    }
+    return { node, copy: copy as SimplifiedNode, depth, cost };
+  };
+  const commit = (pending: Refs, cost: number) => {
+    pending.styles.forEach((id) => usedStyles.add(id));
+    pending.variables.forEach((id) => usedVariables.add(id));
+    used += cost;
+  };
+
+  const rootRefs: Refs = { styles: new Set(), variables: new Set() };
+  const roots = nodes.map((node) => include(node, 0, rootRefs));
+  commit(
+    rootRefs,
+    roots.reduce((total, { cost }) => total + cost, 0),
+  );
+  if (!measured) used = formattedLength();
+  const tokenBudgetExceeded =
+    used > maxChars ? { maxTokens, estimatedTokens: Math.ceil(used / CHARS_PER_TOKEN) } : undefined;
+
+  // Expand one node at a time, all of its children or none, so no node is shown with only some
+  // of its children
+  const queue = [...roots];
+  for (let i = 0; i < queue.length; i++) {
+    const { node, copy, depth } = queue[i];
+    if (!node.children?.length) continue;
+
+    const pending: Refs = { styles: new Set(), variables: new Set() };
+    const children = node.children.map((child) => include(child, depth + 1, pending));
+    const truncated = copy.truncated;
+    let cost: number;
+    if (measured) {
+      cost =
+        children.reduce((total, { cost }) => total + cost, 0) +
+        measure({ children: [] }, measured, depth) -
+        measure({ truncated }, measured, depth);
+      if (used + cost > maxChars) continue;
+      delete copy.truncated;
+      copy.children = children.map((child) => child.copy);
+    } else {
+      delete copy.truncated;
+      copy.children = children.map((child) => child.copy);
+      cost = formattedLength() - used;
+      if (used + cost > maxChars) {
+        copy.truncated = truncated;
+        delete copy.children;
+        continue;
+      }
+    }
+
+    commit(pending, cost);
+    queue.push(...children);
+  }
+
+  const pick = <T>(values: Record<string, T>, ids: Set<string>) =>
+    Object.fromEntries(Object.entries(values).filter(([id]) => ids.has(id)));
+  return {
+    ...metadata,
+    ...(tokenBudgetExceeded && { tokenBudgetExceeded }),
+    nodes: roots.map(({ copy }) => copy),
+    globalVars: {
+      ...globalVars,
+      styles: pick(globalVars.styles, usedStyles),
+      ...(globalVars.variables && { variables: pick(globalVars.variables, usedVariables) }),
+      ...(globalVars.styleNames && { styleNames: pick(globalVars.styleNames, usedStyles) }),
+    },
+  };
+}
+
+/**
+ * Length of a node, or of one entry of globalVars, as part of a formatted design. yaml indents
+ * each of its lines by two spaces for the key it sits under and two more for its list item,
+ * which adds up for deeply nested nodes
+ */
+function measure(value: unknown, format: "yaml" | "json", depth = 0): number {
+  if (format === "json") return JSON.stringify(value).length + 1;
+  const text = yaml.dump(value);
+  const lines = text.split("\n").length - 1;
+  return text.length + lines * 4 * (depth + 1);
+}
+
+/**
+ * Describe the nodes in a left-out subtree: how many there are, of which types, and the first
+ * few texts, so an agent can decide whether to fetch it
+ */
+function summarizeSubtree(children: SimplifiedNode[]): TruncatedSubtree {
+  const types = new Map<string, number>();
+  const texts: string[] = [];
+  let nodeCount = 0;
+  const visit = (node: SimplifiedNode) => {
+    nodeCount++;
+    types.set(node.type, (types.get(node.type) ?? 0) + 1);
+    if (node.text?.trim() && texts.length < SUMMARY_TEXTS) {
+      const text = node.text.trim().replace(/\s+/g, " ");
+      texts.push(
+        JSON.stringify(
+          text.length > SUMMARY_TEXT_LENGTH ? `${text.slice(0, SUMMARY_TEXT_LENGTH - 1)}…` : text,
+        ),
+      );
+    }
+    node.children?.forEach(visit);
+  };
+  children.forEach(visit);
+
+  const typeCounts = [...types]
+    .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+    .slice(0, SUMMARY_NODE_TYPES)
+    .map(([type, count]) => `${count} ${type}`);
+  if (types.size > SUMMARY_NODE_TYPES) typeCounts.push("…");
+
+  return {
+    childCount: children.length,
+    nodeCount,
+    summary: `${typeCounts.join(", ")}${texts.length ? `; text ${texts.join(", ")}` : ""}`,
+  };
+}
+
+function getStyleRefs(node: Omit<SimplifiedNode, "children">): string[] {
+  return [node.layout, node.fills, node.strokes, node.effects, node.textStyle].filter(
+    (id): id is string => typeof id === "string",
+  );
+}
+
+function getVariableRefs(node: Omit<SimplifiedNode, "children">): string[] {
+  return Object.values(node.variables ?? {}).flat();
+}
@@ -0,0 +1,239 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import { Logger } from "~/server.js";
+import { downloadVisionImage, type VisionImage, type VisionProvider } from "./vision.js";
+
+export interface VisionCacheConfig {
+  enabled: boolean;
+  /**
+   * Directory holding the cache index. Defaults to ~/.cache/figma-developer-mcp
+   */
+  dir?: string;
+  /**
+   * Entries older than this are treated as missing. Defaults to 30 days
+   */
+  ttlSeconds?: number;
+  /**
+   * Least recently used entries are evicted beyond this count. Defaults to 5000
+   */
+  maxEntries?: number;
+}
+
+interface VisionCacheEntry {
+  provider: string;
+  /**
+   * Base URL of the provider's API, since different servers may serve models with the same name
+   */
+  baseUrl: string;
+  model: string;
+  promptVersion: string;
+  contentHash: string;
+  text: string;
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+type VisionCacheKey = Pick<
+  VisionCacheEntry,
+  "provider" | "baseUrl" | "model" | "promptVersion" | "contentHash"
+>;
+
+export type VisionCacheFilter = Partial<VisionCacheKey>;
+
+const DEFAULT_TTL_SECONDS = 30 * 24 * 60 * 60;
+const DEFAULT_MAX_ENTRIES = 5000;
+const INDEX_FILE = "vision-cache.json";
+
+export function hashContent(value: string | Uint8Array): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Short, stable identifier for a prompt so edits to the prompt invalidate old answers
+ */
+export function getPromptVersion(prompt: string): string {
+  return hashContent(prompt).slice(0, 12);
+}
+
+/**
+ * Disk-backed store of image descriptions keyed by image content, provider, model and prompt
+ */
+export class VisionCache {
+  private readonly filePath: string;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private entries: Record<string, VisionCacheEntry> | null = null;
+  /**
+   * Whether reads changed entries since the index was last written
+   */
+  private dirty = false;
+
+  constructor({ dir, ttlSeconds, maxEntries }: Omit<VisionCacheConfig, "enabled"> = {}) {
+    const cacheDir = dir ?? path.join(os.homedir(), ".cache", "figma-developer-mcp");
+    this.filePath = path.join(cacheDir, INDEX_FILE);
+    this.ttlMs = (ttlSeconds ?? DEFAULT_TTL_SECONDS) * 1000;
+    this.maxEntries = maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  get(key: VisionCacheKey): string | undefined {
+    const entries = this.load();
+    const id = this.getEntryId(key);
+    const entry = entries[id];
+    if (!entry) return undefined;
+
+    if (Date.now() - entry.createdAt > this.ttlMs) {
+      delete entries[id];
+      this.dirty = true;
+      return undefined;
+    }
+
+    // Only kept in memory here, and written with the next set or flush, so a hit never costs a
+    // rewrite of the whole index
+    entry.lastAccessedAt = Date.now();
+    this.dirty = true;
+    return entry.text;
+  }
+
+  set(key: VisionCacheKey, text: string): void {
+    const entries = this.load();
+    const now = Date.now();
+    entries[this.getEntryId(key)] = { ...key, text, createdAt: now, lastAccessedAt: now };
+    this.evict();
+    this.save();
+  }
+
+  /**
+   * Write access times and expirations recorded by reads, so eviction after a restart still sees
+   * recently read entries
+   */
+  flush(): void {
+    if (this.dirty) this.save();
+  }
+
+  /**
+   * Remove every entry matching all fields of the filter. An empty filter clears the cache
+   * @returns The number of removed entries
+   */
+  invalidate(filter: VisionCacheFilter = {}): number {
+    const entries = this.load();
+    const fields = Object.entries(filter).filter(([, value]) => value !== undefined) as [
+      keyof VisionCacheFilter,
+      string,
+    ][];
+
+    let removed = 0;
+    for (const [id, entry] of Object.entries(entries)) {
+      if (fields.every(([field, value]) => entry[field] === value)) {
+        delete entries[id];
+        removed++;
+      }
+    }
+
+    if (removed > 0) this.save();
+    return removed;
+  }
+
+  private getEntryId({
+    provider,
+    baseUrl,
+    model,
+    promptVersion,
+    contentHash,
+  }: VisionCacheKey): string {
+    return hashContent(`${provider}|${baseUrl}|${model}|${promptVersion}|${contentHash}`);
+  }
+
+  private evict(): void {
+    const entries = this.load();
+    const now = Date.now();
+
+    for (const [id, entry] of Object.entries(entries)) {
+      if (now - entry.createdAt > this.ttlMs) delete entries[id];
+    }
+
+    const ids = Object.keys(entries);
+    if (ids.length <= this.maxEntries) return;
+
+    ids
+      .sort((a, b) => entries[a].lastAccessedAt - entries[b].lastAccessedAt)
+      .slice(0, ids.length - this.maxEntries)
+      .forEach((id) => delete entries[id]);
+  }
+
+  private load(): Record<string, VisionCacheEntry> {
+    if (this.entries) return this.entries;
+
+    try {
+      this.entries = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+    } catch {
+      this.entries = {};
+    }
+    return this.entries!;
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      // Write to a temporary file first so a crash never leaves a truncated index behind
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(this.entries));
+      fs.renameSync(tmpPath, this.filePath);
+      this.dirty = false;
+    } catch (error) {
+      Logger.error("Failed to write vision cache:", error);
+    }
+  }
+}
+
+/**
+ * Wraps a provider so each distinct image is only sent to the model once per model and prompt
+ */
+export class CachedVisionProvider implements VisionProvider {
+  readonly name: VisionProvider["name"];
+  readonly baseUrl: string;
+  readonly model: string;
+  readonly prompt: string;
+  private readonly promptVersion: string;
+  private readonly provider: VisionProvider;
+  private readonly cache: VisionCache;
+
+  constructor(provider: VisionProvider, cache: VisionCache) {
+    this.provider = provider;
+    this.cache = cache;
+    this.name = provider.name;
+    this.baseUrl = provider.baseUrl;
+    this.model = provider.model;
+    this.prompt = provider.prompt;
+    this.promptVersion = getPromptVersion(provider.prompt);
+  }
+
+  async analyzeImage(imageUrl: string, image?: VisionImage): Promise<string | undefined> {
+    // Figma render URLs are signed and change on every request, so key on the image bytes instead
+    const downloaded = image ?? (await downloadVisionImage(imageUrl));
+    const key = {
+      provider: this.name,
+      baseUrl: this.baseUrl,
+      model: this.model,
+      promptVersion: this.promptVersion,
+      contentHash: hashContent(downloaded.data),
+    };
+
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      Logger.log(`[Vision cache] hit for ${key.contentHash}`);
+      return cached;
+    }
+
+    const text = await this.provider.analyzeImage(imageUrl, downloaded);
+    if (text !== undefined) {
+      this.cache.set(key, text);
+    }
+    return text;
+  }
+
+  flush(): void {
+    this.cache.flush();
+  }
+}
@@ -0,0 +1,201 @@
+import { Logger } from "~/server.js";
+
+export type VisionProviderName = "openai" | "openai-compatible" | "none";
+
+export interface VisionConfig {
+  provider: VisionProviderName;
+  /**
+   * Sent as a Bearer token. Optional for local OpenAI-compatible servers
+   */
+  apiKey?: string;
+  /**
+   * Base URL of the API, e.g. http://localhost:11434/v1 for Ollama
+   */
+  baseUrl?: string;
+  model?: string;
+  maxTokens?: number;
+  /**
+   * Replaces the default classification prompt
+   */
+  prompt?: string;
+  /**
+   * Download the image and send it as a base64 data URL instead of passing the Figma CDN link.
+   * Local servers usually can't fetch remote URLs themselves. Defaults to true for openai-compatible
+   */
+  inlineImages?: boolean;
+}
+
+/**
+ * Image bytes that were already downloaded, so the provider doesn't fetch them again
+ */
+export interface VisionImage {
+  data: Uint8Array;
+  contentType: string;
+}
+
+export interface VisionProvider {
+  readonly name: VisionProviderName;
+  /**
+   * Base URL of the API the model is served from. Empty for providers that make no requests
+   */
+  readonly baseUrl: string;
+  readonly model: string;
+  readonly prompt: string;
+  /**
+   * Describe the image at the given URL
+   * @param image - The image's bytes, if the caller already has them
+   * @returns The description, or undefined if this provider does not analyze images
+   */
+  analyzeImage(imageUrl: string, image?: VisionImage): Promise<string | undefined>;
+  /**
+   * Persist anything kept in memory between analyses. Called once per context build
+   */
+  flush?(): void;
+}
+
+export const DEFAULT_VISION_PROMPT = `
+이미지를 보고 아래 중 하나로 분류해서 답변하세요.
+
+1. 만약 UI 컴포넌트(버튼, 입력창, 체크박스, 토글, 카드, 탭, 드롭다운, 스탭퍼, 피커 등)로 추정된다면, 해당 UI 컴포넌트의 이름을 한글로 명확히 기재하세요. (예: 버튼, 입력창, 카드, 스탭퍼 등)
+2. UI 컴포넌트가 아니지만 아이콘으로 인식된다면, 어떤 의미의 아이콘인지 한 줄로 요약해서 한글로 설명하세요.
+3. 1, 2가 아니지만 의미가 있는 이미지(예: 일러스트, 사진 등)라면, 그 내용을 한 줄로 요약해서 한글로 설명하세요.
+4. UI 컴포넌트도 아니고 의미가 있는 이미지도 아니라면(예: 단순 배경, 장식, 패턴 등), "분석결과 없음"이라고 답변하세요.
+
+반드시 위 3가지 중 하나로만 답변하세요.
+  `;
+
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o";
+const DEFAULT_MAX_TOKENS = 256;
+
+/**
+ * Talks to any endpoint implementing the OpenAI chat completions API with image inputs
+ */
+export class OpenAIVisionProvider implements VisionProvider {
+  readonly name: VisionProviderName;
+  readonly model: string;
+  readonly prompt: string;
+  readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly maxTokens: number;
+  private readonly inlineImages: boolean;
+
+  constructor(config: VisionConfig) {
+    this.name = config.provider;
+    this.apiKey = config.apiKey;
+    this.baseUrl = (config.baseUrl ?? OPENAI_BASE_URL).replace(/\/+$/, "");
+    this.model = config.model ?? DEFAULT_OPENAI_MODEL;
+    this.maxTokens = config.maxTokens ?? DEFAULT_MAX_TOKENS;
+    this.prompt = config.prompt ?? DEFAULT_VISION_PROMPT;
+    this.inlineImages = config.inlineImages ?? config.provider === "openai-compatible";
+  }
+
+  async analyzeImage(imageUrl: string, image?: VisionImage): Promise<string | undefined> {
+    Logger.log("[Vision API] image_url:", imageUrl);
+
+    const body = {
+      model: this.model,
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: this.prompt },
+            { type: "image_url", image_url: { url: await this.resolveImageUrl(imageUrl, image) } },
+          ],
+        },
+      ],
+      max_tokens: this.maxTokens,
+    };
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      Logger.error("[Vision API] error:", errorText);
+      throw new Error(`Vision API call to ${this.baseUrl} failed: ${errorText}`);
+    }
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content?.trim() || "";
+  }
+
+  private async resolveImageUrl(imageUrl: string, image?: VisionImage): Promise<string> {
+    if (!this.inlineImages) return imageUrl;
+
+    const { data, contentType } = image ?? (await downloadVisionImage(imageUrl));
+    return `data:${contentType};base64,${Buffer.from(data).toString("base64")}`;
+  }
+}
+
+/**
+ * Skips image analysis entirely, e.g. on machines without access to a vision model
+ */
+export class NoneVisionProvider implements VisionProvider {
+  readonly name = "none";
+  readonly baseUrl = "";
+  readonly model = "";
+  readonly prompt = "";
+
+  async analyzeImage(): Promise<undefined> {
+    return undefined;
+  }
+}
+
+export async function downloadVisionImage(imageUrl: string): Promise<VisionImage> {
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to download image for analysis: ${response.statusText}`);
+  }
+  return {
+    data: new Uint8Array(await response.arrayBuffer()),
+    contentType: response.headers.get("content-type") ?? "image/png",
+  };
+}
+
+/**
+ * Check a vision config before a provider is created, so configuration mistakes surface at startup
+ * @returns What is wrong with the config, or undefined if it is usable
+ */
+export function validateVisionConfig(config: VisionConfig): string | undefined {
+  if (config.provider === "openai" && !config.apiKey) {
+    return "The openai vision provider requires an API key (VISION_API_KEY or --vision-api-key)";
+  }
+  if (config.provider === "openai-compatible") {
+    if (!config.baseUrl) {
+      return "The openai-compatible vision provider requires a base URL (VISION_BASE_URL or --vision-base-url)";
+    }
+    if (!config.model) {
+      return "The openai-compatible vision provider requires a model name (VISION_MODEL or --vision-model)";
+    }
+  }
+  if (
+    config.maxTokens !== undefined &&
+    (!Number.isInteger(config.maxTokens) || config.maxTokens <= 0)
+  ) {
+    return `VISION_MAX_TOKENS must be a positive integer (got ${config.maxTokens})`;
+  }
+  return undefined;
+}
+
+export function createVisionProvider(config: VisionConfig): VisionProvider {
+  const problem = validateVisionConfig(config);
+  if (problem) throw new Error(problem);
+
+  switch (config.provider) {
+    case "openai":
+    case "openai-compatible":
+      return new OpenAIVisionProvider(config);
+    case "none":
+      return new NoneVisionProvider();
+    default:
+      throw new Error(`Unknown vision provider: ${config.provider}`);
+  }
+}
@@ -1,4 +1,110 @@
 import yaml from "js-yaml";
+import type { GetFileResponse, Node as FigmaDocumentNode } from "@figma/rest-api-spec";
+import { parseFigmaResponse, type SimplifiedNode } from "../services/simplify-node-response.js";
+
+/**
+ * Build a document of roughly `nodeCount` nodes: auto-layout frames of text and rectangles with
+ * enough distinct colors, sizes and font settings to produce thousands of global styles
+ */
+function buildSyntheticFile(nodeCount: number): GetFileResponse {
+  let created = 0;
+  const color = (i: number) => ({
+    r: (i % 17) / 16,
+    g: (i % 31) / 30,
+    b: (i % 7) / 6,
+    a: 1,
+  });
+
+  const leaf = (i: number): FigmaDocumentNode => {
+    created++;
+    const box = { x: i % 500, y: i % 300, width: 40 + (i % 97), height: 20 + (i % 13) };
+    if (i % 2 === 0) {
+      return {
+        id: `T:${i}`,
+        name: `Label ${i}`,
+        type: "TEXT",
+        characters: `Text ${i}`,
+        absoluteBoundingBox: box,
+        fills: [{ type: "SOLID", blendMode: "NORMAL", color: color(i) }],
+        style: {
+          fontFamily: i % 3 ? "Inter" : "Roboto",
+          fontWeight: 400 + (i % 5) * 100,
+          fontSize: 10 + (i % 23),
+          lineHeightPx: 14 + (i % 29),
+          letterSpacing: 0,
+        },
+      } as unknown as FigmaDocumentNode;
+    }
+    return {
+      id: `R:${i}`,
+      name: `Shape ${i}`,
+      type: "RECTANGLE",
+      absoluteBoundingBox: box,
+      fills: [{ type: "SOLID", blendMode: "NORMAL", color: color(i) }],
+      strokes: [{ type: "SOLID", blendMode: "NORMAL", color: color(i + 3) }],
+      strokeWeight: 1 + (i % 3),
+      cornerRadius: i % 9,
+    } as unknown as FigmaDocumentNode;
+  };
+
+  const frame = (i: number, children: FigmaDocumentNode[]): FigmaDocumentNode => {
+    created++;
+    return {
+      id: `F:${i}`,
+      name: `Frame ${i}`,
+      type: "FRAME",
+      clipsContent: true,
+      layoutMode: i % 2 ? "HORIZONTAL" : "VERTICAL",
+      itemSpacing: i % 24,
+      paddingTop: i % 16,
+      paddingLeft: i % 12,
+      absoluteBoundingBox: { x: 0, y: 0, width: 400 + (i % 211), height: 300 + (i % 127) },
+      fills: [{ type: "SOLID", blendMode: "NORMAL", color: color(i * 7) }],
+      children,
+    } as unknown as FigmaDocumentNode;
+  };
+
+  const sections: FigmaDocumentNode[] = [];
+  for (let s = 0; created < nodeCount; s++) {
+    const rows: FigmaDocumentNode[] = [];
+    for (let r = 0; r < 10 && created < nodeCount; r++) {
+      const leaves = Array.from({ length: 9 }, (_, l) => leaf(created + l));
+      rows.push(frame(created, leaves));
+    }
+    sections.push(frame(created, rows));
+  }
+
+  return {
+    name: "Synthetic",
+    role: "owner",
+    lastModified: "2024-01-01T00:00:00Z",
+    editorType: "figma",
+    version: "1",
+    schemaVersion: 0,
+    components: {},
+    componentSets: {},
+    styles: {},
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      scrollBehavior: "SCROLLS",
+      children: [
+        {
+          id: "0:1",
+          name: "Page",
+          type: "CANVAS",
+          scrollBehavior: "SCROLLS",
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          prototypeStartNodeID: null,
+          flowStartingPoints: [],
+          prototypeDevice: { type: "NONE", rotation: "NONE" },
+          children: sections,
+        },
+      ],
+    },
+  } as unknown as GetFileResponse;
+}
 
 describe("Benchmarks", () => {
   const data = {
@@ -13,4 +119,30 @@ describe("Benchmarks", () => {
 
     expect(yamlResult.length).toBeLessThan(jsonResult.length);
   });
+
+  it("should deduplicate the styles of a 50k-node document", () => {
+    const file = buildSyntheticFile(50_000);
+
+    const simplified = parseFigmaResponse(file);
+
+    const fillIdsByColor = new Map<string, Set<string>>();
+    const visit = (node: SimplifiedNode, raw: FigmaDocumentNode) => {
+      const rawFills = (raw as { fills?: unknown[] }).fills;
+      if (node.fills && rawFills) {
+        const color = JSON.stringify(rawFills);
+        fillIdsByColor.set(color, (fillIdsByColor.get(color) ?? new Set()).add(node.fills));
+        expect(simplified.globalVars.styles).toHaveProperty([node.fills]);
+      }
+      node.children?.forEach((child, i) =>
+        visit(child, (raw as { children: FigmaDocumentNode[] }).children[i]),
+      );
+    };
+    const page = file.document.children[0] as unknown as { children: FigmaDocumentNode[] };
+    simplified.nodes[0].children!.forEach((node, i) => visit(node, page.children[i]));
+
+    // Every distinct fill is stored once, and far fewer styles exist than nodes
+    expect(fillIdsByColor.size).toBeGreaterThan(1);
+    expect([...fillIdsByColor.values()].every((ids) => ids.size === 1)).toBe(true);
+    expect(Object.keys(simplified.globalVars.styles).length).toBeLessThan(50_000 / 2);
+  }, 60_000);
 });
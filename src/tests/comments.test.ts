@@ -0,0 +1,71 @@
+import type { Comment } from "@figma/rest-api-spec";
+import { buildCommentRequest, getCommentThreads } from "../services/comments.js";
+
+function comment(id: string, handle: string, fields: Partial<Comment> = {}): Comment {
+  return {
+    id,
+    file_key: "file",
+    user: { id: `user-${handle}`, handle, img_url: "" },
+    created_at: `2024-01-0${id}T00:00:00Z`,
+    message: `Message ${id}`,
+    order_id: null,
+    reactions: [],
+    client_meta: { x: 0, y: 0 },
+    ...fields,
+  };
+}
+
+const comments = [
+  comment("1", "Dana", {
+    order_id: "1",
+    client_meta: { node_id: "1:2", node_offset: { x: 10, y: 4 } },
+  }),
+  comment("2", "Sam", { parent_id: "1" }),
+  comment("3", "Dana", { order_id: "2", resolved_at: "2024-02-01T00:00:00Z" }),
+  comment("4", "Lee", {
+    order_id: "3",
+    client_meta: { node_id: "5:6", node_offset: { x: 0, y: 0 } },
+  }),
+];
+
+describe("getCommentThreads", () => {
+  it("nests replies under their thread", () => {
+    expect(getCommentThreads(comments, { nodeIds: ["1:2"] })).toEqual([
+      {
+        id: "1",
+        author: "Dana",
+        message: "Message 1",
+        createdAt: "2024-01-01T00:00:00Z",
+        number: "1",
+        nodeId: "1:2",
+        replies: [
+          { id: "2", author: "Sam", message: "Message 2", createdAt: "2024-01-02T00:00:00Z" },
+        ],
+      },
+    ]);
+  });
+
+  it("filters by resolved state and by anyone taking part", () => {
+    const ids = (query: Parameters<typeof getCommentThreads>[1]) =>
+      getCommentThreads(comments, query).map(({ id }) => id);
+
+    expect(ids({ resolved: true })).toEqual(["3"]);
+    expect(ids({ resolved: false })).toEqual(["1", "4"]);
+    expect(ids({ author: "sam" })).toEqual(["1"]);
+    expect(ids({ author: "user-Dana", resolved: false })).toEqual(["1"]);
+  });
+});
+
+describe("buildCommentRequest", () => {
+  it("pins new comments to a node and sends replies by thread ID", () => {
+    expect(buildCommentRequest({ message: "Use the 8px grid", nodeId: "1:2" })).toEqual({
+      message: "Use the 8px grid",
+      client_meta: { node_id: "1:2", node_offset: { x: 0, y: 0 } },
+    });
+    expect(buildCommentRequest({ message: "Done", nodeId: "1:2", replyTo: "1" })).toEqual({
+      message: "Done",
+      comment_id: "1",
+    });
+    expect(() => buildCommentRequest({ message: "Floating" })).toThrow("node to pin it to");
+  });
+});
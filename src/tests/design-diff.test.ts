@@ -0,0 +1,107 @@
+import type { SimplifiedDesign, SimplifiedNode } from "../services/simplify-node-response.js";
+import { diffDesigns } from "../services/design-diff.js";
+
+function design(root: SimplifiedNode, styles: Record<string, unknown>): SimplifiedDesign {
+  return {
+    name: "Test file",
+    lastModified: "2024-01-01T00:00:00Z",
+    thumbnailUrl: "",
+    nodes: [root],
+    globalVars: { styles },
+  } as unknown as SimplifiedDesign;
+}
+
+describe("diffDesigns", () => {
+  it("lists added, removed, moved and changed nodes between two versions", () => {
+    const before = design(
+      {
+        id: "1:1",
+        name: "Screen",
+        type: "FRAME",
+        layout: "layout_a",
+        children: [
+          { id: "1:2", name: "Title", type: "TEXT", text: "Welcome", fills: "fill_a" },
+          { id: "1:3", name: "Banner", type: "FRAME", children: [] },
+          {
+            id: "1:4",
+            name: "Footer",
+            type: "FRAME",
+            children: [{ id: "1:5", name: "Link", type: "TEXT" }],
+          },
+        ],
+      },
+      { layout_a: { mode: "column", gap: "8px" }, fill_a: ["#000000"] },
+    );
+    const after = design(
+      {
+        id: "1:1",
+        name: "Screen",
+        type: "FRAME",
+        layout: "layout_b",
+        children: [
+          { id: "1:2", name: "Title", type: "TEXT", text: "Welcome back", fills: "fill_b" },
+          { id: "1:4", name: "Footer", type: "FRAME", children: [] },
+          { id: "1:5", name: "Link", type: "TEXT" },
+          {
+            id: "1:6",
+            name: "Promo",
+            type: "FRAME",
+            children: [{ id: "1:7", name: "Image", type: "RECTANGLE" }],
+          },
+        ],
+      },
+      // Variable names differ between responses, so values are compared rather than IDs
+      { layout_b: { mode: "column", gap: "16px" }, fill_b: ["#000000"] },
+    );
+
+    const diff = diffDesigns(before, after);
+
+    expect(diff.matchedBy).toBe("id");
+    expect(diff.added).toEqual([
+      { id: "1:6", name: "Promo", type: "FRAME", path: ["Screen"], nodeCount: 2 },
+    ]);
+    expect(diff.removed).toEqual([
+      { id: "1:3", name: "Banner", type: "FRAME", path: ["Screen"], nodeCount: 1 },
+    ]);
+    expect(diff.moved).toEqual([
+      { id: "1:5", name: "Link", type: "TEXT", path: ["Screen"], from: ["Screen", "Footer"] },
+    ]);
+    expect(diff.changed).toEqual([
+      {
+        id: "1:1",
+        name: "Screen",
+        type: "FRAME",
+        path: [],
+        changes: [{ property: "layout.gap", before: "8px", after: "16px" }],
+      },
+      {
+        id: "1:2",
+        name: "Title",
+        type: "TEXT",
+        path: ["Screen"],
+        changes: [{ property: "text", before: "Welcome", after: "Welcome back" }],
+      },
+    ]);
+  });
+
+  it("pairs up different nodes by name path", () => {
+    const button = (id: string, label: string): SimplifiedNode => ({
+      id: `${id}:1`,
+      name: "Button",
+      type: "COMPONENT",
+      children: [{ id: `${id}:2`, name: "Label", type: "TEXT", text: label }],
+    });
+
+    const diff = diffDesigns(design(button("1", "Buy"), {}), design(button("2", "Buy now"), {}));
+
+    expect(diff.matchedBy).toBe("path");
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([
+      expect.objectContaining({
+        id: "2:2",
+        changes: [{ property: "text", before: "Buy", after: "Buy now" }],
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,212 @@
+import type { GetFileResponse } from "@figma/rest-api-spec";
+import {
+  extractDesignTokens,
+  formatTokensAsCSS,
+  formatTokensAsDTCG,
+  formatTokensAsTailwind,
+} from "../services/design-tokens.js";
+
+function buildFile(): GetFileResponse {
+  return {
+    name: "Tokens",
+    lastModified: "2024-01-01T00:00:00Z",
+    version: "1",
+    styles: {
+      "S:1": { key: "k1", name: "Primary/Blue", description: "Brand", styleType: "FILL" },
+      "S:2": { key: "k2", name: "Heading/H1", description: "", styleType: "TEXT" },
+    },
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [
+        {
+          id: "1:1",
+          name: "Title",
+          type: "TEXT",
+          fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0.4, b: 1, a: 1 } }],
+          style: { fontFamily: "Inter", fontWeight: 700, fontSize: 32, lineHeightPx: 40 },
+          styles: { fill: "S:1", text: "S:2" },
+        },
+        {
+          id: "1:2",
+          name: "Unstyled",
+          type: "RECTANGLE",
+          fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 0, b: 0, a: 0.5 } }],
+        },
+      ],
+    },
+  } as unknown as GetFileResponse;
+}
+
+describe("design tokens", () => {
+  it("names tokens after shared styles and skips unstyled values by default", () => {
+    const tokens = extractDesignTokens(buildFile());
+
+    expect(tokens.map((t) => t.path.join("/"))).toEqual([
+      "color/Primary/Blue",
+      "typography/Heading/H1",
+    ]);
+    expect(extractDesignTokens(buildFile(), { includeUnnamed: true })).toHaveLength(3);
+  });
+
+  it("renders DTCG, CSS and Tailwind output", () => {
+    const tokens = extractDesignTokens(buildFile(), { includeUnnamed: true });
+
+    expect(formatTokensAsDTCG(tokens)).toMatchObject({
+      color: { Primary: { Blue: { $type: "color", $value: "#0066FF", $description: "Brand" } } },
+    });
+    const css = formatTokensAsCSS(tokens);
+    expect(css).toContain("--color-primary-blue: #0066FF;");
+    expect(css).toContain("--typography-heading-h1-line-height: 1.25;");
+    expect(css).toMatch(/--color-fill-[0-9a-f]{6}: #FF000080;/);
+    expect(formatTokensAsTailwind(tokens)).toContain('"primary-blue": "#0066FF"');
+  });
+
+  it("keeps the gradient type and renders it with the node's geometry", () => {
+    const file = buildFile();
+    file.styles["S:3"] = { key: "k3", name: "Glow", description: "", styleType: "FILL" } as never;
+    file.document.children.push({
+      id: "1:3",
+      name: "Spot",
+      type: "RECTANGLE",
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+      fills: [
+        {
+          type: "GRADIENT_RADIAL",
+          blendMode: "NORMAL",
+          gradientHandlePositions: [
+            { x: 0.5, y: 0.5 },
+            { x: 1, y: 0.5 },
+            { x: 0.5, y: 1 },
+          ],
+          gradientStops: [
+            { position: 0, color: { r: 1, g: 1, b: 1, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 0, a: 1 } },
+          ],
+        },
+      ],
+      styles: { fill: "S:3" },
+    } as never);
+
+    const tokens = extractDesignTokens(file);
+
+    expect(formatTokensAsDTCG(tokens)).toMatchObject({
+      gradient: {
+        Glow: {
+          $type: "gradient",
+          $value: [
+            { color: "#FFFFFF", position: 0 },
+            { color: "#000000", position: 1 },
+          ],
+          $extensions: { "com.figma": { styleName: "Glow", gradientType: "radial" } },
+        },
+      },
+    });
+    expect(formatTokensAsCSS(tokens)).toContain(
+      "--gradient-glow: radial-gradient(ellipse 50% 50% at 50% 50%, #FFFFFF 0%, #000000 100%);",
+    );
+  });
+
+  it("nests a token named like a group as the group's $root token", () => {
+    const file = buildFile();
+    file.styles["S:3"] = {
+      key: "k3",
+      name: "Primary",
+      description: "",
+      styleType: "FILL",
+    } as never;
+    file.document.children.push({
+      id: "1:3",
+      name: "Base",
+      type: "RECTANGLE",
+      fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0, b: 0, a: 1 } }],
+      styles: { fill: "S:3" },
+    } as never);
+
+    expect(formatTokensAsDTCG(extractDesignTokens(file))).toMatchObject({
+      color: {
+        Primary: {
+          $root: { $type: "color", $value: "#000000" },
+          Blue: { $type: "color", $value: "#0066FF" },
+        },
+      },
+    });
+  });
+
+  it("reads styled values from the style's node, not from nodes overriding it", () => {
+    const file = buildFile();
+    const title = file.document.children[0] as unknown as { fills: unknown[] };
+    // The only node using the style overrides its color
+    title.fills = [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 0, b: 0, a: 1 } }];
+    const styleNode = {
+      id: "9:1",
+      name: "Primary/Blue",
+      type: "RECTANGLE",
+      fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0.4, b: 1, a: 1 } }],
+    } as never;
+
+    const [color] = extractDesignTokens(file, { styleNodes: { "S:1": styleNode } });
+
+    expect(color).toMatchObject({ path: ["color", "Primary", "Blue"], value: "#0066FF" });
+  });
+
+  it("takes the value most nodes agree on without the style's node", () => {
+    const file = buildFile();
+    const styled = (id: string, r: number) =>
+      ({
+        id,
+        name: "Box",
+        type: "RECTANGLE",
+        fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r, g: 0, b: 0, a: 1 } }],
+        styles: { fill: "S:1" },
+      }) as never;
+    file.document.children.push(styled("1:3", 0), styled("1:4", 0));
+
+    const [color] = extractDesignTokens(file);
+
+    expect(color.value).toBe("#000000");
+  });
+
+  it("numbers the tokens of styles sharing a name instead of merging them", () => {
+    const file = buildFile();
+    file.styles["S:3"] = {
+      key: "k3",
+      name: "Primary/Blue",
+      description: "",
+      styleType: "FILL",
+      remote: false,
+    };
+    file.document.children.push({
+      id: "1:3",
+      name: "Other blue",
+      type: "RECTANGLE",
+      fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0, b: 1, a: 1 } }],
+      styles: { fill: "S:3" },
+    } as never);
+
+    const tokens = extractDesignTokens(file).filter((token) => token.type === "color");
+
+    expect(tokens).toMatchObject([
+      { path: ["color", "Primary", "Blue"], value: "#0066FF" },
+      { path: ["color", "Primary", "Blue-2"], value: "#0000FF" },
+    ]);
+    expect(formatTokensAsDTCG(tokens)).toMatchObject({
+      color: { Primary: { Blue: { $value: "#0066FF" }, "Blue-2": { $value: "#0000FF" } } },
+    });
+  });
+
+  it("numbers tokens whose names collide in CSS and Tailwind", () => {
+    const tokens = [
+      { path: ["color", "Primary", "Blue"], type: "color" as const, value: "#0066FF" },
+      { path: ["color", "Primary Blue"], type: "color" as const, value: "#0000FF" },
+    ];
+
+    const css = formatTokensAsCSS(tokens);
+    expect(css).toContain("--color-primary-blue: #0066FF;");
+    expect(css).toContain("--color-primary-blue-2: #0000FF;");
+    const tailwind = formatTokensAsTailwind(tokens);
+    expect(tailwind).toContain('"primary-blue": "#0066FF"');
+    expect(tailwind).toContain('"primary-blue-2": "#0000FF"');
+  });
+});
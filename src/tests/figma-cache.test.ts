@@ -0,0 +1,147 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { FigmaResponseCache } from "../services/figma-cache.js";
+import { FigmaService } from "../services/figma.js";
+import { LRUCache } from "../utils/lru-cache.js";
+
+function fileResponse(version: string, name = "File") {
+  return { name, version, lastModified: `2024-01-0${version}T00:00:00Z` };
+}
+
+describe("LRUCache", () => {
+  it("evicts the least recently used entries beyond the entry limit", () => {
+    const cache = new LRUCache<string, number>(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect([...cache.keys()]).toEqual(["a", "c"]);
+  });
+
+  it("keeps the summed size within its budget and skips values that never fit", () => {
+    const cache = new LRUCache<string, string>(10, { maxSize: 5, sizeOf: (value) => value.length });
+    cache.set("a", "aa");
+    cache.set("b", "bb");
+    cache.set("c", "cc");
+    cache.set("d", "dddddd");
+
+    expect([...cache.keys()]).toEqual(["b", "c"]);
+    expect(cache.calculatedSize).toBe(4);
+  });
+});
+
+describe("FigmaResponseCache", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "figma-cache-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it("keeps large responses out of memory but still serves them from disk", async () => {
+    const cache = new FigmaResponseCache({ dir, maxMemoryMB: 0.001 });
+    const large = { ...fileResponse("1"), name: "x".repeat(2_000) };
+    cache.set({ fileKey: "abc" }, large);
+
+    const restarted = new FigmaResponseCache({ dir });
+    expect(await restarted.get({ fileKey: "abc" }, jest.fn())).toEqual(large);
+  });
+
+  it("removes the least recently read files beyond the disk budget", async () => {
+    const response = (version: string) => ({ ...fileResponse(version), name: "x".repeat(300) });
+    const cache = new FigmaResponseCache({ dir, maxDiskMB: 0.001 });
+    cache.set({ fileKey: "a" }, response("1"));
+    cache.set({ fileKey: "b" }, response("1"));
+    for (const [index, file] of fs.readdirSync(dir).sort().entries()) {
+      fs.utimesSync(path.join(dir, file), 1_000 + index, 1_000 + index);
+    }
+
+    const restarted = new FigmaResponseCache({ dir, maxDiskMB: 0.001 });
+    await restarted.get({ fileKey: "a" }, jest.fn());
+    restarted.set({ fileKey: "c" }, response("1"));
+
+    expect(fs.readdirSync(dir).sort()).toEqual([
+      expect.stringMatching(/^a-/),
+      expect.stringMatching(/^c-/),
+    ]);
+  });
+
+  it("revalidates entries against the file version once they are no longer fresh", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const cache = new FigmaResponseCache({ freshForSeconds: 30 });
+    const getCurrentVersion = jest.fn(async () => fileResponse("1"));
+    cache.set({ fileKey: "abc" }, fileResponse("1"));
+
+    expect(await cache.get({ fileKey: "abc" }, getCurrentVersion)).toEqual(fileResponse("1"));
+    expect(getCurrentVersion).not.toHaveBeenCalled();
+
+    now.mockReturnValue(31_000);
+    expect(await cache.get({ fileKey: "abc" }, getCurrentVersion)).toEqual(fileResponse("1"));
+    expect(getCurrentVersion).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(62_000);
+    getCurrentVersion.mockResolvedValue(fileResponse("2"));
+    expect(await cache.get({ fileKey: "abc" }, getCurrentVersion)).toBeUndefined();
+  });
+
+  it("treats entries as missing when their version can't be checked", async () => {
+    jest.spyOn(Date, "now").mockReturnValueOnce(0).mockReturnValue(31_000);
+    const cache = new FigmaResponseCache({ freshForSeconds: 30 });
+    cache.set({ fileKey: "abc" }, fileResponse("1"));
+
+    const getCurrentVersion = jest.fn().mockRejectedValue(new Error("Figma is down"));
+    expect(await cache.get({ fileKey: "abc" }, getCurrentVersion)).toBeUndefined();
+  });
+
+  it("never revalidates responses for a saved version", async () => {
+    jest.spyOn(Date, "now").mockReturnValueOnce(0).mockReturnValue(1_000_000);
+    const cache = new FigmaResponseCache();
+    const getCurrentVersion = jest.fn();
+    cache.set({ fileKey: "abc", version: "1" }, fileResponse("1"));
+
+    expect(await cache.get({ fileKey: "abc", version: "1" }, getCurrentVersion)).toBeDefined();
+    expect(getCurrentVersion).not.toHaveBeenCalled();
+  });
+
+  it("keeps file keys from choosing where entries are written", async () => {
+    const cache = new FigmaResponseCache({ dir });
+    cache.set({ fileKey: "../../escape" }, fileResponse("1"));
+    cache.set({ fileKey: "abc" }, fileResponse("1"));
+
+    const files = fs.readdirSync(dir);
+    expect(files).toHaveLength(2);
+    expect(files).toContainEqual(expect.stringMatching(/^______escape-[0-9a-f]{32}\.json$/));
+    expect(fs.readdirSync(path.dirname(dir)).some((file) => file.startsWith("escape"))).toBe(false);
+
+    cache.invalidateFile("../../escape");
+    expect(fs.readdirSync(dir)).toEqual([expect.stringMatching(/^abc-/)]);
+    expect(await cache.get({ fileKey: "abc" }, jest.fn())).toBeDefined();
+  });
+});
+
+describe("FigmaService response caching", () => {
+  const originalFetch = global.fetch;
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("serves repeated reads from the cache unless noCache is set", async () => {
+    const fetchMock = jest.fn(async () => new Response(JSON.stringify(fileResponse("1"))));
+    global.fetch = fetchMock as typeof fetch;
+    const service = new FigmaService("token", { cache: new FigmaResponseCache() });
+
+    await service.getRawFile("abc");
+    await service.getRawFile("abc");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await service.getRawFile("abc", undefined, { noCache: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
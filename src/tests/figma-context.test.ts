@@ -0,0 +1,102 @@
+import type { FigmaService } from "../services/figma.js";
+import { FigmaContextService } from "../services/figma-context.js";
+import type { VisionProvider } from "../services/vision.js";
+
+function buildService(document: unknown, analyzeImage: jest.Mock) {
+  const figmaService = {
+    getRawNode: jest.fn(async () => ({ nodes: document ? { "1:1": { document } } : {} })),
+    getImageUrls: jest.fn(async (_fileKey: string, ids: string[]) =>
+      Object.fromEntries(ids.map((id) => [id, `https://cdn.example.com/${id}.png`])),
+    ),
+  };
+  const visionProvider: VisionProvider = {
+    name: "openai",
+    baseUrl: "https://api.openai.com/v1",
+    model: "gpt-4o",
+    prompt: "",
+    analyzeImage,
+  };
+  return {
+    figmaService,
+    contextService: new FigmaContextService(
+      figmaService as unknown as FigmaService,
+      visionProvider,
+    ),
+  };
+}
+
+const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+const modal = {
+  id: "1:1",
+  name: "Modal",
+  type: "FRAME",
+  absoluteBoundingBox: box(0, 0, 360, 640),
+  children: [
+    {
+      id: "1:2",
+      name: "Screen",
+      type: "TEXT",
+      characters: "Home",
+      absoluteBoundingBox: box(0, 0, 360, 40),
+    },
+    {
+      id: "1:3",
+      name: "Dimm",
+      type: "RECTANGLE",
+      opacity: 0.5,
+      absoluteBoundingBox: box(0, 0, 360, 640),
+    },
+    {
+      id: "1:4",
+      name: "Sheet",
+      type: "FRAME",
+      absoluteBoundingBox: box(0, 400, 360, 240),
+      children: [
+        {
+          id: "1:5",
+          name: "Photo",
+          type: "RECTANGLE",
+          fills: [{ type: "IMAGE", imageRef: "abc" }],
+        },
+        { id: "1:6", name: "Hidden", type: "TEXT", visible: false, characters: "Secret" },
+        { id: "1:7", name: "Title", type: "TEXT", characters: "Share" },
+      ],
+    },
+  ],
+};
+
+describe("FigmaContextService", () => {
+  it("collects text, marks the dimmer and what it covers, and describes images", async () => {
+    const analyzeImage = jest.fn(async () => "사진");
+    const { figmaService, contextService } = buildService(modal, analyzeImage);
+
+    const context = await contextService.getContext("file", "1:1");
+
+    expect(figmaService.getImageUrls).toHaveBeenCalledWith("file", ["1:5"], "png", {});
+    expect(context!.target_text).toBe("Home\nSecret\nShare");
+    const [screen, dimmer, sheet] = context!.hierarchy.children!;
+    expect(screen.isBackground).toBe("visible");
+    expect(dimmer.isBackground).toBe("dimmer");
+    expect(sheet.isBackground).toBe("dimmed");
+    expect(sheet.children!.map(({ name }) => name)).toEqual(["Photo", "Title"]);
+    expect(sheet.children![0]).toMatchObject({
+      image_url: "https://cdn.example.com/1:5.png",
+      vision_text: "사진",
+    });
+  });
+
+  it("reports failed image analysis in place and returns null for missing nodes", async () => {
+    const analyzeImage = jest.fn(async () => {
+      throw new Error("model unavailable");
+    });
+    const { contextService } = buildService(modal, analyzeImage);
+
+    const context = await contextService.getContext("file", "1:1");
+    expect(context!.hierarchy.children![2].children![0].vision_text).toContain("model unavailable");
+
+    expect(
+      await buildService(null, analyzeImage).contextService.getContext("file", "1:1"),
+    ).toBeNull();
+  });
+});
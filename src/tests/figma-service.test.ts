@@ -0,0 +1,253 @@
+import { FigmaApiError, FigmaService } from "../services/figma.js";
+import { FigmaResponseCache } from "../services/figma-cache.js";
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+describe("FigmaService requests", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("retries rate limited requests after Retry-After", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse(429, { err: "Rate limited" }, { "retry-after": "0" }))
+      .mockResolvedValueOnce(jsonResponse(200, { images: { "1:2": "https://example.com/a.png" } }));
+
+    const service = new FigmaService("token", { retry: { baseDelayMs: 1 } });
+    const urls = await service.getImageUrls("file", ["1:2"]);
+
+    expect(urls).toEqual({ "1:2": "https://example.com/a.png" });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up on server errors after the configured retries", async () => {
+    fetchMock.mockImplementation(async () => jsonResponse(502, { err: "Bad gateway" }));
+
+    const service = new FigmaService("token", { retry: { maxRetries: 2, baseDelayMs: 1 } });
+
+    await expect(service.getImageUrls("file", ["1:2"])).rejects.toMatchObject({
+      kind: "server",
+      status: 502,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry auth errors and explains them", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(403, { status: 403, err: "Invalid token" }));
+
+    const service = new FigmaService("token");
+    const error = await service.getImageUrls("file", ["1:2"]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(FigmaApiError);
+    expect(error.kind).toBe("auth");
+    expect(error.message).toContain("lacks access");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads a named branch at a saved version, caching the immutable response", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes("branch_data=true")
+        ? jsonResponse(200, { branches: [{ key: "branch1", name: "Checkout redesign" }] })
+        : jsonResponse(200, { nodes: {}, version: "42", lastModified: "2024-01-01T00:00:00Z" }),
+    );
+
+    const service = new FigmaService("token", {
+      cache: new FigmaResponseCache({ freshForSeconds: 0 }),
+    });
+    const options = { branch: "checkout redesign", version: "42" };
+    await service.getRawNode("main", "1:2", 2, options);
+    const response = await service.getRawNode("main", "1:2", 2, options);
+
+    expect(response.version).toBe("42");
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      "https://api.figma.com/v1/files/main?depth=1&branch_data=true",
+      "https://api.figma.com/v1/files/branch1/nodes?ids=1:2&depth=2&version=42",
+    ]);
+  });
+
+  it("renders images of a branch at a saved version", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.includes("branch_data=true")
+        ? jsonResponse(200, { branches: [{ key: "branch1", name: "Checkout redesign" }] })
+        : jsonResponse(200, { images: { "1:2": "https://example.com/a.png" } }),
+    );
+
+    const service = new FigmaService("token");
+    await service.getImageUrls("main", ["1:2"], "svg", { branch: "branch1", version: "42" });
+
+    expect(fetchMock.mock.calls[1][0]).toBe(
+      "https://api.figma.com/v1/images/branch1?ids=1:2&format=svg&version=42",
+    );
+  });
+
+  it("flags variables resolved for a saved version as their current values", async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith("/variables/published")) return jsonResponse(404, { err: "Not found" });
+      if (url.endsWith("/variables/local")) {
+        return jsonResponse(200, {
+          meta: {
+            variableCollections: {
+              "C:1": { id: "C:1", name: "Theme", modes: [{ modeId: "M:1", name: "Light" }] },
+            },
+            variables: {
+              "V:1": {
+                id: "V:1",
+                name: "color/ink",
+                variableCollectionId: "C:1",
+                resolvedType: "COLOR",
+                valuesByMode: { "M:1": { r: 0, g: 0, b: 0, a: 1 } },
+              },
+            },
+          },
+        });
+      }
+      return jsonResponse(200, {
+        version: "42",
+        lastModified: "2024-01-01T00:00:00Z",
+        nodes: {
+          "1:2": {
+            document: {
+              id: "1:2",
+              name: "Ink",
+              type: "RECTANGLE",
+              fills: [{ type: "SOLID", color: { r: 0, g: 0, b: 0, a: 1 } }],
+              boundVariables: { fills: [{ type: "VARIABLE_ALIAS", id: "V:1" }] },
+            },
+          },
+        },
+      });
+    });
+
+    const service = new FigmaService("token");
+    const saved = await service.getNode("file", "1:2", undefined, { version: "42" });
+    const current = await service.getNode("file", "1:2");
+
+    expect(saved.globalVars.variables).toBeDefined();
+    expect(saved.currentVariableValues).toBe(true);
+    expect(current.currentVariableValues).toBeUndefined();
+  });
+
+  it("posts comments as JSON without retrying server errors", async () => {
+    fetchMock.mockResolvedValue(jsonResponse(500, { err: "Internal error" }));
+
+    const service = new FigmaService("token", { retry: { baseDelayMs: 1 } });
+    const body = { message: "Looks good", comment_id: "7" };
+
+    await expect(service.postComment("file", body)).rejects.toMatchObject({ kind: "server" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.figma.com/v1/files/file/comments");
+    expect(init).toMatchObject({ method: "POST", body: JSON.stringify(body) });
+  });
+
+  it("sends OAuth tokens as bearer tokens and keeps cached responses per token", async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse(200, { nodes: {}, version: "1", lastModified: "2024-01-01T00:00:00Z" }),
+    );
+
+    const cache = new FigmaResponseCache();
+    const alice = new FigmaService({ type: "oauth", token: "alice" }, { cache });
+    const bob = new FigmaService("bob", { cache });
+    await alice.getRawNode("file", "1:2");
+    await alice.getRawNode("file", "1:2");
+    await bob.getRawNode("file", "1:2");
+
+    expect(fetchMock.mock.calls.map(([, init]) => init.headers)).toEqual([
+      { Authorization: "Bearer alice" },
+      { "X-Figma-Token": "bob" },
+    ]);
+  });
+
+  it("compares styled nodes against the nodes defining their published styles, cached by version", async () => {
+    const fill = (g: number) => [
+      { type: "SOLID", blendMode: "NORMAL", color: { r: 0, g, b: 1, a: 1 } },
+    ];
+    const rectangle = (id: string, g: number) => ({
+      id,
+      name: id,
+      type: "RECTANGLE",
+      fills: fill(g),
+      styles: { fill: "S:1" },
+    });
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url.endsWith("/files/file/styles")) {
+        return jsonResponse(200, { meta: { styles: [{ key: "k1", node_id: "9:1" }] } });
+      }
+      const ids = new URL(url).searchParams.get("ids")!;
+      return jsonResponse(200, {
+        version: "1",
+        lastModified: "2024-01-01T00:00:00Z",
+        nodes:
+          ids === "9:1"
+            ? { "9:1": { document: rectangle("9:1", 0.4) } }
+            : {
+                "1:2": {
+                  document: rectangle("1:2", 0.5),
+                  styles: { "S:1": { key: "k1", name: "Primary/Blue", styleType: "FILL" } },
+                },
+              },
+      });
+    });
+
+    const service = new FigmaService("token", { cache: new FigmaResponseCache() });
+    const design = await service.getNode("file", "1:2");
+
+    expect(design.nodes[0].styleOverrides).toEqual(["fills"]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    // The published styles and their nodes are cached along with the file
+    await service.getNode("file", "1:2");
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("reads component property defaults from the main component to collapse instances", async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      const { searchParams } = new URL(url);
+      const ids = searchParams.get("ids")!;
+      const document =
+        ids === "2:0"
+          ? {
+              id: "2:0",
+              name: "Button",
+              type: "COMPONENT_SET",
+              componentPropertyDefinitions: { "Label#1:0": { type: "TEXT", defaultValue: "Buy" } },
+              children: [{ id: "2:1", name: "Size=Large", type: "COMPONENT" }],
+            }
+          : {
+              id: "3:1",
+              name: "Button",
+              type: "INSTANCE",
+              componentId: "2:1",
+              componentProperties: { "Label#1:0": { type: "TEXT", value: "Buy" } },
+              overrides: [],
+              children: [{ id: "I3:1;1:1", name: "Label", type: "TEXT", characters: "Buy" }],
+            };
+      return jsonResponse(200, {
+        version: "1",
+        lastModified: "2024-01-01T00:00:00Z",
+        nodes: {
+          [ids]: {
+            document,
+            components: { "2:1": { key: "c1", name: "Size=Large", componentSetId: "2:0" } },
+          },
+        },
+      });
+    });
+
+    const design = await new FigmaService("token").getNode("file", "3:1", undefined, {
+      collapseInstances: true,
+    });
+
+    expect(design.nodes[0].collapsed).toBe(true);
+    expect(fetchMock.mock.calls[1][0]).toContain("ids=2:0&depth=1");
+  });
+});
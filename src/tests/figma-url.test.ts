@@ -0,0 +1,67 @@
+import { FigmaUrlError, parseFigmaUrl, resolveFigmaTarget } from "../utils/figma-url.js";
+
+describe("parseFigmaUrl", () => {
+  it.each([
+    ["https://www.figma.com/design/abc123/My-File?node-id=12-34&t=x", "design", ["12:34"]],
+    ["https://www.figma.com/file/abc123/My-File?node-id=12%3A34", "file", ["12:34"]],
+    [
+      "https://figma.com/proto/abc123/Flow?node-id=1-2&starting-point-node-id=1%3A2",
+      "proto",
+      ["1:2"],
+    ],
+    ["https://www.figma.com/board/abc123/Board", "board", []],
+    ["https://www.figma.com/slides/abc123/Deck?node-id=1-2%2C3-4", "slides", ["1:2", "3:4"]],
+  ])("parses %s", (url, type, nodeIds) => {
+    expect(parseFigmaUrl(url)).toEqual({ type, fileKey: "abc123", branchKey: undefined, nodeIds });
+  });
+
+  it("parses branch links and nodes inside instances", () => {
+    expect(
+      parseFigmaUrl(
+        "https://www.figma.com/design/abc123/branch/def456/My-File?node-id=I1-2%3B3-4&node-id=5-6",
+      ),
+    ).toEqual({
+      type: "design",
+      fileKey: "abc123",
+      branchKey: "def456",
+      nodeIds: ["I1:2;3:4", "5:6"],
+    });
+  });
+
+  it.each([
+    ["not a url", "Not a valid URL"],
+    ["https://example.com/design/abc123/File", "Not a Figma URL"],
+    ["https://www.figma.com/community/file/123", "Unsupported Figma URL"],
+    ["https://www.figma.com/design/", "Could not find a file key"],
+    ["https://www.figma.com/design/abc123/File?node-id=abc", "Invalid node ID: abc"],
+  ])("rejects %s", (url, message) => {
+    expect(() => parseFigmaUrl(url)).toThrow(FigmaUrlError);
+    expect(() => parseFigmaUrl(url)).toThrow(message);
+  });
+});
+
+describe("resolveFigmaTarget", () => {
+  it("prefers the URL, falling back to the separate node ID", () => {
+    expect(
+      resolveFigmaTarget({
+        url: "https://www.figma.com/design/abc123/branch/def456/File",
+        fileKey: "ignored",
+        nodeId: "1-2,3:4",
+      }),
+    ).toEqual({ fileKey: "def456", nodeIds: ["1:2", "3:4"] });
+  });
+
+  it("resolves a branch URL to its main file when a branch is given", () => {
+    const url = "https://www.figma.com/design/abc123/branch/def456/File";
+
+    expect(resolveFigmaTarget({ url }).fileKey).toBe("def456");
+    expect(resolveFigmaTarget({ url, branch: "Redesign" }).fileKey).toBe("abc123");
+  });
+
+  it("accepts a URL in place of the file key", () => {
+    expect(
+      resolveFigmaTarget({ fileKey: "https://www.figma.com/file/abc123/File?node-id=1-2" }),
+    ).toEqual({ fileKey: "abc123", nodeIds: ["1:2"] });
+    expect(() => resolveFigmaTarget({})).toThrow("Either a Figma URL or a file key is required");
+  });
+});
@@ -0,0 +1,195 @@
+import { FigmaMcpServer } from "../server.js";
+import { InMemoryEventStore } from "../utils/event-store.js";
+
+const BASE_URL = "http://127.0.0.1";
+const FIGMA_URL = "https://www.figma.com/design/abc123/Shop?node-id=1-2";
+
+describe("HTTP server", () => {
+  const originalFetch = global.fetch;
+  let figmaRequests: { url: string; headers: Record<string, string> }[];
+  let server: FigmaMcpServer | undefined;
+  // A fresh port per test, so no pooled connection to a stopped server gets reused
+  let port = 39400;
+
+  beforeEach(() => {
+    figmaRequests = [];
+    global.fetch = jest.fn(async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      if (url.startsWith(BASE_URL)) return originalFetch(input, init);
+      figmaRequests.push({ url, headers: (init?.headers ?? {}) as Record<string, string> });
+      return new Response(
+        JSON.stringify({
+          nodes: { "1:2": { document: { id: "1:2", name: "Button", type: "FRAME" } } },
+          version: "1",
+          lastModified: "2024-01-01T00:00:00Z",
+        }),
+      );
+    }) as typeof fetch;
+  });
+
+  afterEach(async () => {
+    await server?.stopHttpServer();
+    server = undefined;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  async function start(options: ConstructorParameters<typeof FigmaMcpServer>[1] = {}) {
+    server = new FigmaMcpServer("server-key", { figmaCache: { enabled: false }, ...options });
+    await server.startHttpServer(++port);
+  }
+
+  function postContext(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+    return fetch(`${BASE_URL}:${port}/context`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe("/context", () => {
+    it("requires the caller's own credentials", async () => {
+      await start();
+
+      const response = await postContext({ figma_url: FIGMA_URL });
+
+      expect(response.status).toBe(401);
+      expect((await response.json()).error).toContain("access_token is required");
+      expect(figmaRequests).toEqual([]);
+    });
+
+    it("reads the file with the token from the body or the headers", async () => {
+      await start();
+
+      expect((await postContext({ figma_url: FIGMA_URL, access_token: "user-pat" })).status).toBe(
+        200,
+      );
+      expect(
+        (await postContext({ figma_url: FIGMA_URL }, { Authorization: "Bearer user-oauth" }))
+          .status,
+      ).toBe(200);
+
+      expect(figmaRequests.map(({ headers }) => headers)).toEqual([
+        { "X-Figma-Token": "user-pat" },
+        { Authorization: "Bearer user-oauth" },
+      ]);
+    });
+
+    it("only falls back to the server's key when configured to", async () => {
+      await start({ contextServerKeyFallback: true });
+
+      const response = await postContext({ figma_url: FIGMA_URL });
+
+      expect(response.status).toBe(200);
+      expect(figmaRequests[0].headers).toEqual({ "X-Figma-Token": "server-key" });
+    });
+  });
+
+  describe("/mcp sessions", () => {
+    const initialize = {
+      jsonrpc: "2.0",
+      id: 1,
+      method: "initialize",
+      params: {
+        protocolVersion: "2025-03-26",
+        capabilities: {},
+        clientInfo: { name: "test-client", version: "1.0.0" },
+      },
+    };
+
+    async function postMcp(body: unknown, headers: Record<string, string> = {}) {
+      const response = await fetch(`${BASE_URL}:${port}/mcp`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+          ...headers,
+        },
+        body: JSON.stringify(body),
+      });
+      // Responses come back as server-sent events
+      const text = await response.text();
+      const data = text
+        .split("\n")
+        .filter((line) => line.startsWith("data: "))
+        .map((line) => JSON.parse(line.slice("data: ".length)));
+      return { response, message: data[0] ?? (text ? JSON.parse(text) : undefined) };
+    }
+
+    async function openSession(headers: Record<string, string> = {}) {
+      const { response } = await postMcp(initialize, headers);
+      const sessionId = response.headers.get("mcp-session-id")!;
+      await postMcp(
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { "Mcp-Session-Id": sessionId, ...headers },
+      );
+      return sessionId;
+    }
+
+    const listTools = { jsonrpc: "2.0", id: 2, method: "tools/list" };
+
+    it("creates a session and serves later requests on it", async () => {
+      await start();
+
+      const sessionId = await openSession();
+      const { message } = await postMcp(listTools, { "Mcp-Session-Id": sessionId });
+
+      expect(sessionId).toBeTruthy();
+      expect(message.result.tools.map(({ name }: { name: string }) => name)).toContain(
+        "get_figma_data",
+      );
+    });
+
+    it("only accepts requests carrying the session's credentials", async () => {
+      await start();
+
+      const sessionId = await openSession({ "X-Figma-Token": "alice" });
+
+      expect(
+        (await postMcp(listTools, { "Mcp-Session-Id": sessionId, "X-Figma-Token": "alice" }))
+          .response.status,
+      ).toBe(200);
+      expect(
+        (await postMcp(listTools, { "Mcp-Session-Id": sessionId, "X-Figma-Token": "bob" })).response
+          .status,
+      ).toBe(403);
+      expect((await postMcp(listTools, { "Mcp-Session-Id": sessionId })).response.status).toBe(403);
+    });
+
+    it("closes sessions that stay idle", async () => {
+      await start({ sessionIdleTimeoutSeconds: 0.05 });
+
+      const sessionId = await openSession();
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      const { response } = await postMcp(listTools, { "Mcp-Session-Id": sessionId });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
+
+describe("InMemoryEventStore", () => {
+  it("caps events per stream and drops the least recently written streams", async () => {
+    const store = new InMemoryEventStore({ maxEventsPerStream: 2, maxStreams: 2 });
+    const message = { jsonrpc: "2.0" as const, method: "notifications/message" };
+    const replayed: string[] = [];
+    const send = async (eventId: string) => {
+      replayed.push(eventId);
+    };
+
+    const a1 = await store.storeEvent("a", message);
+    const b1 = await store.storeEvent("b", message);
+    const a2 = await store.storeEvent("a", message);
+    const a3 = await store.storeEvent("a", message);
+    await store.storeEvent("c", message);
+
+    expect(store.size).toBe(2);
+    // a1 fell out of its stream, and stream b was dropped when c arrived
+    expect(await store.replayEventsAfter(a1, { send })).toBe("");
+    expect(await store.replayEventsAfter(b1, { send })).toBe("");
+    expect(await store.replayEventsAfter(a2, { send })).toBe("a");
+    expect(replayed).toEqual([a3]);
+  });
+});
@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import yaml from "js-yaml";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { CallToolResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { FigmaMcpServer } from "../server.js";
+import { FigmaService } from "../services/figma.js";
+import { resolveFileInDir, resolveWorkspacePath } from "../utils/common.js";
+
+function jsonResponse(body: unknown) {
+  return new Response(JSON.stringify(body), { status: 200 });
+}
+
+/**
+ * Answers Figma render requests with one URL per node and serves every URL as a tiny image
+ */
+function mockFigmaImages(fetchMock: jest.Mock) {
+  fetchMock.mockImplementation(async (url: string) => {
+    if (url.startsWith("https://api.figma.com/v1/images/")) {
+      const ids = new URL(url).searchParams.get("ids")!.split(",");
+      return jsonResponse({
+        images: Object.fromEntries(ids.map((id) => [id, `https://cdn.example.com/${id}.png`])),
+      });
+    }
+    return new Response("png-bytes", { status: 200 });
+  });
+}
+
+describe("resolveWorkspacePath", () => {
+  it("keeps paths inside the workspace", () => {
+    expect(resolveWorkspacePath("assets/icons", "/work")).toBe(path.resolve("/work/assets/icons"));
+    expect(resolveWorkspacePath("/work/assets", "/work")).toBe(path.resolve("/work/assets"));
+    expect(() => resolveWorkspacePath("../elsewhere", "/work")).toThrow("outside of the workspace");
+    expect(() => resolveWorkspacePath("/etc", "/work")).toThrow("outside of the workspace");
+  });
+
+  it("only accepts bare file names inside a directory", () => {
+    expect(resolveFileInDir("/work/assets", "logo.svg")).toBe(
+      path.resolve("/work/assets/logo.svg"),
+    );
+    for (const fileName of ["../../.ssh/x", "sub/logo.svg", "..\\logo.svg", "..", ""]) {
+      expect(() => resolveFileInDir("/work/assets", fileName)).toThrow("Invalid file name");
+    }
+  });
+});
+
+describe("image downloads", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+  let workspace: string;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), "figma-images-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("downloads each image once and reports every requested file", async () => {
+    mockFigmaImages(fetchMock);
+    const service = new FigmaService("token");
+
+    const results = await service.getImages(
+      "file",
+      [
+        { nodeId: "1:2", fileName: "logo.png", fileType: "png" },
+        { nodeId: "1:2", fileName: "logo.png", fileType: "png" },
+        { nodeId: "1:3", fileName: "logo.png", fileType: "png" },
+        { nodeId: "1:4", fileName: "../escape.png", fileType: "png" },
+      ],
+      workspace,
+    );
+
+    expect(results.map(({ success }) => success)).toEqual([true, true, false, false]);
+    expect(results[2].error).toContain("already used by another image");
+    expect(results[3].error).toContain("Invalid file name");
+    expect(fs.readFileSync(path.join(workspace, "logo.png"), "utf-8")).toBe("png-bytes");
+    expect(fs.existsSync(path.join(workspace, "..", "escape.png"))).toBe(false);
+    // One render request plus one download for the shared URL
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("writes renders through download_figma_images and rejects names leaving the directory", async () => {
+    mockFigmaImages(fetchMock);
+    jest.spyOn(process, "cwd").mockReturnValue(workspace);
+    const server = new FigmaMcpServer("token", { figmaCache: { enabled: false } });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const result = await client.request(
+      {
+        method: "tools/call",
+        params: {
+          name: "download_figma_images",
+          arguments: {
+            fileKey: "file",
+            localPath: "assets",
+            nodes: [{ nodeId: "1:2" }, { nodeId: "1:3", fileName: "../../.ssh/x" }],
+          },
+        },
+      },
+      CallToolResultSchema,
+    );
+    await client.close();
+
+    const { summary, results } = yaml.load(result.content[0].text as string) as {
+      summary: string;
+      results: { fileName: string; success: boolean; error?: string }[];
+    };
+    expect(result.isError).toBe(false);
+    expect(summary).toBe("Downloaded 1 of 2 images");
+    expect(results[0]).toMatchObject({ fileName: "1-2.png", success: true });
+    expect(results[1]).toMatchObject({ fileName: "../../.ssh/x", success: false });
+    expect(fs.readdirSync(path.join(workspace, "assets"))).toEqual(["1-2.png"]);
+  });
+
+  it("names fills after their type and keeps fills and renders from sharing a file", async () => {
+    fetchMock.mockImplementation(async (url: string) => {
+      if (url === "https://api.figma.com/v1/files/file/images") {
+        return jsonResponse({ meta: { images: { abc: "https://cdn.example.com/abc" } } });
+      }
+      if (url.startsWith("https://api.figma.com/v1/images/")) {
+        return jsonResponse({ images: { "1:2": "https://cdn.example.com/1-2.jpg" } });
+      }
+      return new Response("jpeg-bytes", { status: 200, headers: { "content-type": "image/jpeg" } });
+    });
+    jest.spyOn(process, "cwd").mockReturnValue(workspace);
+    const server = new FigmaMcpServer("token", { figmaCache: { enabled: false } });
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const download = async (nodes: { nodeId: string; imageRef?: string; fileName?: string }[]) => {
+      const result = await client.request(
+        {
+          method: "tools/call",
+          params: {
+            name: "download_figma_images",
+            arguments: { fileKey: "file", localPath: "assets", format: "jpg", nodes },
+          },
+        },
+        CallToolResultSchema,
+      );
+      return (
+        yaml.load(result.content[0].text as string) as {
+          results: { fileName?: string; success: boolean; error?: string }[];
+        }
+      ).results;
+    };
+
+    expect(await download([{ nodeId: "1:1", imageRef: "abc" }])).toMatchObject([
+      { fileName: "abc.jpg", success: true },
+    ]);
+    const shared = await download([
+      { nodeId: "1:1", imageRef: "abc", fileName: "hero.jpg" },
+      { nodeId: "1:2", fileName: "hero.jpg" },
+    ]);
+    await client.close();
+
+    expect(shared.filter(({ success }) => success)).toHaveLength(1);
+    expect(shared.find(({ success }) => !success)!.error).toContain("already used");
+  });
+});
@@ -0,0 +1,105 @@
+import type { GetFileResponse } from "@figma/rest-api-spec";
+import { searchNodes, validateNodeSearchQuery } from "../services/node-search.js";
+
+function buildFile(): GetFileResponse {
+  const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+  return {
+    name: "Shop",
+    styles: {
+      "S:1": {
+        key: "k1",
+        name: "Brand/Primary",
+        description: "",
+        remote: false,
+        styleType: "FILL",
+      },
+    },
+    components: {
+      "9:1": { key: "c1", name: "Size=Large", description: "", componentSetId: "9:0" },
+    },
+    componentSets: { "9:0": { key: "cs1", name: "Button", description: "" } },
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      children: [
+        {
+          id: "0:1",
+          name: "Checkout",
+          type: "CANVAS",
+          children: [
+            {
+              id: "1:1",
+              name: "Cart",
+              type: "FRAME",
+              absoluteBoundingBox: box(0, 0, 400, 800),
+              children: [
+                {
+                  id: "1:2",
+                  name: "Checkout button",
+                  type: "INSTANCE",
+                  componentId: "9:1",
+                  styles: { fill: "S:1" },
+                  absoluteBoundingBox: box(16, 720, 368, 48),
+                  children: [{ id: "1:3", name: "Label", type: "TEXT", characters: "Pay now" }],
+                },
+                {
+                  id: "1:4",
+                  name: "Old checkout button",
+                  type: "FRAME",
+                  visible: false,
+                  children: [],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  } as unknown as GetFileResponse;
+}
+
+describe("searchNodes", () => {
+  it("matches on name and type with breadcrumb paths, skipping hidden nodes", () => {
+    const result = searchNodes(buildFile(), { name: "checkout.*button" });
+
+    expect(result).toEqual({
+      total: 1,
+      matches: [
+        {
+          id: "1:2",
+          name: "Checkout button",
+          type: "INSTANCE",
+          path: ["Checkout", "Cart"],
+          boundingBox: { x: 16, y: 720, width: 368, height: 48 },
+          component: "Size=Large",
+        },
+      ],
+    });
+    expect(searchNodes(buildFile(), { name: "checkout", types: ["canvas"] }).matches).toEqual([
+      expect.objectContaining({ id: "0:1", path: [] }),
+    ]);
+  });
+
+  it("matches on text, component set and shared style names", () => {
+    const file = buildFile();
+
+    expect(searchNodes(file, { text: "pay NOW" }).matches[0]).toMatchObject({
+      id: "1:3",
+      path: ["Checkout", "Cart", "Checkout button"],
+      text: "Pay now",
+    });
+    expect(searchNodes(file, { component: "button" }).matches.map(({ id }) => id)).toEqual(["1:2"]);
+    expect(searchNodes(file, { style: "brand/" }).total).toBe(1);
+    expect(searchNodes(file, { style: "brand/", types: ["TEXT"] }).total).toBe(0);
+  });
+
+  it("requires at least one criterion", () => {
+    expect(() => searchNodes(buildFile(), {})).toThrow("at least one");
+  });
+
+  it("rejects name patterns that aren't valid regular expressions", () => {
+    expect(() => validateNodeSearchQuery({ name: "button(" })).toThrow("Invalid name pattern");
+    expect(() => validateNodeSearchQuery({ name: "button.*" })).not.toThrow();
+  });
+});
@@ -0,0 +1,215 @@
+import yaml from "js-yaml";
+import { Ajv2020 } from "ajv/dist/2020.js";
+import type { GetFileNodesResponse } from "@figma/rest-api-spec";
+import { parseFigmaResponse } from "../services/simplify-node-response.js";
+import { formatDesign } from "../services/output-format.js";
+import { SIMPLIFIED_DESIGN_SCHEMA } from "../services/design-schema.js";
+import { applyTokenBudget } from "../services/token-budget.js";
+import type { FigmaVariables } from "../transformers/variables.js";
+
+function buildCard(): GetFileNodesResponse {
+  const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+  const black = { type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0, b: 0, a: 1 } };
+  const text = (id: string, name: string, characters: string, y: number) => ({
+    id,
+    name,
+    type: "TEXT",
+    characters,
+    absoluteBoundingBox: box(16, y, 288, 24),
+    fills: [black],
+    style: { fontFamily: "Inter", fontWeight: 400, fontSize: 14, lineHeightPx: 20 },
+  });
+  return {
+    name: "Test file",
+    lastModified: "2024-01-01T00:00:00Z",
+    nodes: {
+      "1:1": {
+        styles: {},
+        components: {},
+        componentSets: {},
+        document: {
+          id: "1:1",
+          name: "Card",
+          type: "FRAME",
+          clipsContent: false,
+          layoutMode: "VERTICAL",
+          itemSpacing: 8,
+          absoluteBoundingBox: box(0, 0, 320, 80),
+          fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 1, b: 1, a: 1 } }],
+          children: [
+            text("1:2", "Title", "Hello\nworld", 0),
+            text("1:3", "Body", "Some body copy", 32),
+          ],
+        },
+      },
+    },
+  } as unknown as GetFileNodesResponse;
+}
+
+describe("formatDesign", () => {
+  const design = parseFigmaResponse(buildCard());
+
+  it("returns the same data as yaml and as json with a schema reference", () => {
+    const fromYaml = yaml.load(formatDesign(design, "yaml"));
+    const { $schema, ...fromJson } = JSON.parse(formatDesign(design, "json"));
+
+    expect($schema).toBe("figma://schemas/simplified-design.json");
+    expect(fromJson).toEqual(fromYaml);
+  });
+
+  it("writes one line per node with its key styles in the outline", () => {
+    expect(formatDesign(design, "outline").split("\n")).toEqual([
+      "Test file (last modified 2024-01-01T00:00:00Z)",
+      "Card [FRAME 1:1] column, gap 8px | fills #FFFFFF",
+      '  Title [TEXT 1:2] "Hello world" | Inter 400 14px | fills #000000',
+      '  Body [TEXT 1:3] "Some body copy" | Inter 400 14px | fills #000000',
+    ]);
+  });
+
+  it("summarizes colors and typography in markdown", () => {
+    const markdown = formatDesign(design, "markdown");
+
+    expect(markdown).toContain("3 nodes: 2 TEXT, 1 FRAME");
+    expect(markdown).toContain("## Colors\n\n- `#000000`: 2 nodes\n- `#FFFFFF`: 1 node");
+    expect(markdown).toContain("## Typography\n\n- Inter 400 14px: 2 nodes");
+    expect(markdown).toContain('- **Card** FRAME\n  - **Title** TEXT: "Hello world"');
+  });
+});
+
+describe("SIMPLIFIED_DESIGN_SCHEMA", () => {
+  /**
+   * The card plus nodes using every kind of style value: gradients, strokes, effects, shared
+   * styles, mixed-style text, lists, instances and bound variables
+   */
+  function buildRichCard(): GetFileNodesResponse {
+    const card = buildCard();
+    const frame = card.nodes["1:1"];
+    frame.styles = {
+      "S:1": { key: "k1", name: "Text/Body", description: "", styleType: "TEXT" },
+    } as never;
+    frame.components = {
+      "2:1": { key: "c1", name: "Button", description: "", remote: true },
+    } as never;
+    const children = (frame.document as unknown as { children: Record<string, unknown>[] })
+      .children;
+    Object.assign(children[1], {
+      styles: { text: "S:1" },
+      characters: "Read the docs\nStep",
+      characterStyleOverrides: [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1],
+      styleOverrideTable: {
+        "1": { fontWeight: 700, hyperlink: { type: "URL", url: "https://example.com" } },
+      },
+      lineTypes: ["NONE", "ORDERED"],
+      lineIndentations: [0, 1],
+    });
+    children.push(
+      {
+        id: "1:4",
+        name: "Banner",
+        type: "RECTANGLE",
+        absoluteBoundingBox: { x: 0, y: 64, width: 320, height: 16 },
+        fills: [
+          {
+            type: "GRADIENT_LINEAR",
+            blendMode: "NORMAL",
+            gradientHandlePositions: [
+              { x: 0, y: 0.5 },
+              { x: 1, y: 0.5 },
+              { x: 0, y: 1 },
+            ],
+            gradientStops: [
+              { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+              { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } },
+            ],
+            boundVariables: {},
+          },
+          {
+            type: "SOLID",
+            blendMode: "NORMAL",
+            color: { r: 0, g: 0, b: 0, a: 1 },
+            boundVariables: { color: { type: "VARIABLE_ALIAS", id: "VariableID:1" } },
+          },
+        ],
+        strokes: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0, b: 0, a: 1 } }],
+        strokeWeight: 1,
+        strokeDashes: [4, 2],
+        effects: [
+          {
+            type: "DROP_SHADOW",
+            visible: true,
+            color: { r: 0, g: 0, b: 0, a: 0.25 },
+            offset: { x: 0, y: 2 },
+            radius: 4,
+            spread: 0,
+          },
+        ],
+        cornerRadius: 4,
+        opacity: 0.5,
+      },
+      {
+        id: "1:5",
+        name: "Button",
+        type: "INSTANCE",
+        componentId: "2:1",
+        componentProperties: {
+          Size: { type: "VARIANT", value: "Large" },
+          "Label#1:0": { type: "TEXT", value: "Buy" },
+        },
+        overrides: [],
+        absoluteBoundingBox: { x: 0, y: 80, width: 80, height: 32 },
+        layoutPositioning: "ABSOLUTE",
+        children: [{ id: "I1:5;1:1", name: "Label", type: "TEXT", characters: "Buy" }],
+      },
+    );
+    return card;
+  }
+
+  const variables: FigmaVariables = {
+    variables: {
+      "VariableID:1": {
+        name: "color/ink",
+        collectionId: "C:1",
+        resolvedType: "COLOR",
+        valuesByMode: { "M:1": { r: 0, g: 0, b: 0, a: 1 }, "M:2": { r: 1, g: 1, b: 1, a: 1 } },
+        codeSyntax: "var(--ink)",
+      },
+    },
+    collections: {
+      "C:1": {
+        name: "Theme",
+        modes: [
+          { modeId: "M:1", name: "Light" },
+          { modeId: "M:2", name: "Dark" },
+        ],
+        defaultModeId: "M:1",
+      },
+    },
+  };
+
+  const validate = new Ajv2020({ strict: false }).compile(SIMPLIFIED_DESIGN_SCHEMA);
+
+  it("describes the json output", () => {
+    const design = parseFigmaResponse(buildRichCard(), { variables, rawPaints: true });
+    const output = JSON.parse(formatDesign(design, "json"));
+
+    expect(validate(output) || validate.errors).toBe(true);
+    // Every kind of style value was produced, so the check covered each of them
+    expect(Object.keys(design.globalVars.styles).map((id) => id.split("_")[0])).toEqual(
+      expect.arrayContaining(["fill", "stroke", "effect", "style", "layout"]),
+    );
+  });
+
+  it("describes the json output when the token budget truncated nodes", () => {
+    const design = applyTokenBudget(parseFigmaResponse(buildRichCard()), 50);
+
+    expect(validate(JSON.parse(formatDesign(design, "json"))) || validate.errors).toBe(true);
+  });
+
+  it("rejects style values of an unknown shape", () => {
+    const design = parseFigmaResponse(buildCard());
+    const output = JSON.parse(formatDesign(design, "json"));
+    output.globalVars.styles.layout_BROKEN = { direction: "sideways" };
+
+    expect(validate(output)).toBe(false);
+  });
+});
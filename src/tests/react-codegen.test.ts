@@ -0,0 +1,122 @@
+import type { GetFileNodesResponse } from "@figma/rest-api-spec";
+import { parseFigmaResponse } from "../services/simplify-node-response.js";
+import { generateReactComponent } from "../services/react-codegen.js";
+
+function buildCard(): GetFileNodesResponse {
+  const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+  return {
+    name: "Test file",
+    lastModified: "2024-01-01T00:00:00Z",
+    nodes: {
+      "1:1": {
+        styles: {},
+        components: {},
+        componentSets: {},
+        document: {
+          id: "1:1",
+          name: "Product card",
+          type: "FRAME",
+          clipsContent: false,
+          layoutMode: "VERTICAL",
+          itemSpacing: 8,
+          paddingTop: 16,
+          paddingRight: 16,
+          paddingBottom: 16,
+          paddingLeft: 16,
+          cornerRadius: 12,
+          absoluteBoundingBox: box(0, 0, 320, 120),
+          fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 1, b: 1, a: 1 } }],
+          children: [
+            {
+              id: "1:2",
+              name: "Title",
+              type: "TEXT",
+              characters: 'Say "hi" {now}',
+              layoutSizingHorizontal: "FILL",
+              absoluteBoundingBox: box(16, 16, 288, 24),
+              fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 0, g: 0, b: 0, a: 1 } }],
+              style: { fontFamily: "Inter", fontWeight: 600, fontSize: 16, lineHeightPx: 24 },
+            },
+          ],
+        },
+      },
+    },
+  } as unknown as GetFileNodesResponse;
+}
+
+describe("generateReactComponent", () => {
+  it("renders layout, fills and text into a CSS module component", () => {
+    const { componentName, files } = generateReactComponent(parseFigmaResponse(buildCard()));
+
+    expect(componentName).toBe("ProductCard");
+    expect(files["ProductCard.tsx"]).toContain('import styles from "./ProductCard.module.css";');
+    expect(files["ProductCard.tsx"]).toContain('{"Say \\"hi\\" {now}"}');
+    const css = files["ProductCard.module.css"];
+    expect(css).toContain(".productCard {\n  display: flex;\n  flex-direction: column;");
+    expect(css).toContain("  gap: 8px;\n  padding: 16px;");
+    expect(css).toContain("  background-color: #FFFFFF;\n  border-radius: 12px;");
+    expect(css).toContain(".title {");
+    expect(css).toContain("  color: #000000;");
+    expect(css).toContain("  font-size: 16px;\n  line-height: 1.5em;");
+  });
+
+  it("inlines styles and produces the same code every time", () => {
+    const generate = () =>
+      generateReactComponent(parseFigmaResponse(buildCard()), { styleMode: "inline" }).files;
+
+    const files = generate();
+    expect(Object.keys(files)).toEqual(["ProductCard.tsx"]);
+    expect(files["ProductCard.tsx"]).toContain('style={{ display: "flex", flexDirection: "column"');
+    expect(generate()).toEqual(files);
+  });
+
+  it("renders links as JSX expressions so quotes in the URL stay escaped", () => {
+    const card = buildCard();
+    const title = (card.nodes["1:1"].document as unknown as { children: Record<string, unknown>[] })
+      .children[0];
+    Object.assign(title, {
+      characters: "Docs",
+      characterStyleOverrides: [1, 1, 1, 1],
+      styleOverrideTable: { 1: { hyperlink: { type: "URL", url: 'https://a.com/?q="x"' } } },
+    });
+
+    const { files } = generateReactComponent(parseFigmaResponse(card));
+
+    expect(files["ProductCard.tsx"]).toContain('<a href={"https://a.com/?q=\\"x\\""}>{"Docs"}</a>');
+  });
+
+  it("renders paragraph spacing, indents and lists", () => {
+    const card = buildCard();
+    const title = (card.nodes["1:1"].document as unknown as { children: Record<string, unknown>[] })
+      .children[0];
+    Object.assign(title, {
+      characters: "Features\nFast\nSafe\n\nStep one",
+      style: { fontFamily: "Inter", fontSize: 16, paragraphSpacing: 12, paragraphIndent: 8 },
+      lineTypes: ["NONE", "UNORDERED", "UNORDERED", "NONE", "ORDERED"],
+      lineIndentations: [0, 1, 2, 0, 1],
+    });
+
+    const { files } = generateReactComponent(parseFigmaResponse(card));
+
+    const tsx = files["ProductCard.tsx"];
+    expect(tsx).toContain(
+      [
+        "      <div className={styles.title}>",
+        '        <span>{"Features"}</span>',
+        "        <ul className={styles.titleList}>",
+        '          <li>{"Fast"}</li>',
+        '          <li className={styles.titleItem}>{"Safe"}</li>',
+        "        </ul>",
+        '        <span>{"\\u00a0"}</span>',
+        "        <ol className={styles.titleList2}>",
+        '          <li>{"Step one"}</li>',
+        "        </ol>",
+        "      </div>",
+      ].join("\n"),
+    );
+    const css = files["ProductCard.module.css"];
+    expect(css).toContain("  text-indent: 8px;");
+    expect(css).toContain("  flex-direction: column;\n  row-gap: 12px;");
+    expect(css).toContain(".titleItem {\n  margin-left: 1.5em;\n}");
+  });
+});
@@ -0,0 +1,25 @@
+import { getRequestAuth, isSameAuth } from "../utils/request-auth.js";
+
+describe("getRequestAuth", () => {
+  it("reads OAuth bearer tokens and personal access tokens", () => {
+    expect(getRequestAuth({ authorization: "Bearer figu_abc" })).toEqual({
+      type: "oauth",
+      token: "figu_abc",
+    });
+    expect(getRequestAuth({ "x-figma-token": " figd_abc " })).toEqual({
+      type: "personal",
+      token: "figd_abc",
+    });
+    expect(getRequestAuth({ authorization: "Basic dXNlcjpwYXNz" })).toBeUndefined();
+    expect(getRequestAuth({})).toBeUndefined();
+  });
+
+  it("tells credentials apart by type and token", () => {
+    const oauth = { type: "oauth" as const, token: "abc" };
+
+    expect(isSameAuth(oauth, { ...oauth })).toBe(true);
+    expect(isSameAuth(oauth, { type: "personal", token: "abc" })).toBe(false);
+    expect(isSameAuth(oauth, undefined)).toBe(false);
+    expect(isSameAuth(undefined, undefined)).toBe(true);
+  });
+});
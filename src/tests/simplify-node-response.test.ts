@@ -0,0 +1,595 @@
+import yaml from "js-yaml";
+import type {
+  CanvasNode,
+  FrameNode,
+  GetFileResponse,
+  Node as FigmaDocumentNode,
+  RectangleNode,
+  SolidPaint,
+  SubcanvasNode,
+  TextNode,
+} from "@figma/rest-api-spec";
+import { parseFigmaResponse } from "../services/simplify-node-response.js";
+import type { FigmaVariables } from "../transformers/variables.js";
+
+function buildFile(overrides: Partial<GetFileResponse> = {}): GetFileResponse {
+  const blue = { r: 0, g: 0.4, b: 1, a: 1 };
+  return {
+    name: "Test file",
+    role: "owner",
+    lastModified: "2024-01-01T00:00:00Z",
+    editorType: "figma",
+    version: "1",
+    schemaVersion: 0,
+    components: {},
+    componentSets: {},
+    styles: {
+      "S:1": { key: "k1", name: "Primary/Blue", description: "", remote: false, styleType: "FILL" },
+    },
+    document: {
+      id: "0:0",
+      name: "Document",
+      type: "DOCUMENT",
+      scrollBehavior: "SCROLLS",
+      children: [
+        {
+          id: "0:1",
+          name: "Page",
+          type: "CANVAS",
+          scrollBehavior: "SCROLLS",
+          backgroundColor: { r: 1, g: 1, b: 1, a: 1 },
+          prototypeStartNodeID: null,
+          flowStartingPoints: [],
+          prototypeDevice: { type: "NONE", rotation: "NONE" },
+          children: [
+            {
+              id: "1:1",
+              name: "Styled",
+              type: "RECTANGLE",
+              fills: [{ type: "SOLID", blendMode: "NORMAL", color: blue }],
+              styles: { fill: "S:1" },
+            },
+            {
+              id: "1:2",
+              name: "Unstyled",
+              type: "RECTANGLE",
+              fills: [{ type: "SOLID", blendMode: "NORMAL", color: { r: 1, g: 0, b: 0, a: 1 } }],
+            },
+          ],
+        },
+      ],
+    },
+    ...overrides,
+  } as unknown as GetFileResponse;
+}
+
+/**
+ * The nodes on the test file's only page
+ */
+function getPageNodes(file: GetFileResponse): SubcanvasNode[] {
+  return (file.document.children[0] as CanvasNode).children;
+}
+
+function addToPage(file: GetFileResponse, ...nodes: Partial<FigmaDocumentNode>[]): void {
+  getPageNodes(file).push(...(nodes as SubcanvasNode[]));
+}
+
+describe("parseFigmaResponse", () => {
+  it("produces byte-identical output for the same design", () => {
+    const first = yaml.dump(parseFigmaResponse(buildFile()));
+    const second = yaml.dump(parseFigmaResponse(buildFile()));
+
+    expect(first).toEqual(second);
+  });
+
+  it("names variables after shared styles and hashes the rest", () => {
+    const { nodes } = parseFigmaResponse(buildFile());
+    const [styled, unstyled] = nodes[0].children!;
+
+    expect(styled.fills).toBe("fill_primary_blue");
+    expect(unstyled.fills).toMatch(/^fill_[0-9A-F]{6}$/);
+  });
+
+  it("references shared style names and flags values that differ from the style's node", () => {
+    const file = buildFile();
+    const [styled] = getPageNodes(file) as RectangleNode[];
+    addToPage(
+      file,
+      { ...styled, id: "1:3" },
+      {
+        ...styled,
+        id: "1:4",
+        fills: [{ ...(styled.fills[0] as SolidPaint), color: { r: 0, g: 0, b: 0, a: 1 } }],
+      },
+    );
+    const { nodes, globalVars } = parseFigmaResponse(file, {
+      styleNodes: { "S:1": { ...styled, id: "9:1" } },
+    });
+    const [first, , second, overridden] = nodes[0].children!;
+
+    expect(first.styles).toEqual({ fills: "Primary/Blue" });
+    expect(first.styleOverrides).toBeUndefined();
+    expect(second.styleOverrides).toBeUndefined();
+    expect(overridden.styles).toEqual({ fills: "Primary/Blue" });
+    expect(overridden.styleOverrides).toEqual(["fills"]);
+    expect(globalVars.styleNames).toEqual({ fill_primary_blue: ["Primary/Blue"] });
+  });
+
+  it("flags a style's only node when it differs from the style", () => {
+    const file = buildFile();
+    const [styled] = getPageNodes(file) as RectangleNode[];
+    const styleNode = {
+      ...styled,
+      id: "9:1",
+      fills: [{ ...styled.fills[0], color: { r: 1, g: 1, b: 1, a: 1 } }],
+    };
+
+    const { nodes, globalVars } = parseFigmaResponse(file, { styleNodes: { "S:1": styleNode } });
+
+    expect(nodes[0].children![0].styleOverrides).toEqual(["fills"]);
+    expect(globalVars.styleNames).toBeUndefined();
+  });
+
+  it("gives each style with the same value its own named variable", () => {
+    const file = buildFile({
+      styles: {
+        "S:1": {
+          key: "k1",
+          name: "Primary/Blue",
+          description: "",
+          remote: false,
+          styleType: "FILL",
+        },
+        "S:2": { key: "k2", name: "Brand/Blue", description: "", remote: false, styleType: "FILL" },
+      },
+    });
+    const [styled] = getPageNodes(file) as RectangleNode[];
+    addToPage(file, { ...styled, id: "1:3", styles: { fill: "S:2" } });
+
+    const { nodes, globalVars } = parseFigmaResponse(file);
+
+    expect(nodes[0].children!.map((node) => node.fills)).toEqual([
+      "fill_primary_blue",
+      expect.stringMatching(/^fill_[0-9A-F]{6}$/),
+      "fill_brand_blue",
+    ]);
+    expect(globalVars.styleNames).toEqual({
+      fill_primary_blue: ["Primary/Blue"],
+      fill_brand_blue: ["Brand/Blue"],
+    });
+  });
+
+  it("keeps style names off overridden values and unstyled nodes sharing them", () => {
+    const file = buildFile();
+    const [styled, unstyled] = getPageNodes(file) as RectangleNode[];
+    // Bound to Primary/Blue, but filled with the unstyled node's red
+    getPageNodes(file).unshift({ ...styled, id: "1:0", fills: unstyled.fills });
+
+    const { nodes, globalVars } = parseFigmaResponse(file, {
+      styleNodes: { "S:1": { ...styled, id: "9:1" } },
+    });
+    const [overridden, blue, red] = nodes[0].children!;
+
+    expect(overridden.styleOverrides).toEqual(["fills"]);
+    expect(blue.fills).toBe("fill_primary_blue");
+    expect(overridden.fills).toMatch(/^fill_[0-9A-F]{6}$/);
+    expect(red.fills).toBe(overridden.fills);
+    expect(Object.keys(globalVars.styles)).toHaveLength(2);
+    expect(globalVars.styleNames).toEqual({ fill_primary_blue: ["Primary/Blue"] });
+  });
+
+  it("leaves a style's variables unnamed when its nodes disagree and its node is unknown", () => {
+    const file = buildFile();
+    const [styled] = getPageNodes(file) as RectangleNode[];
+    addToPage(file, {
+      ...styled,
+      id: "1:3",
+      fills: [{ ...(styled.fills[0] as SolidPaint), color: { r: 0, g: 0, b: 0, a: 1 } }],
+    });
+
+    const { nodes, globalVars } = parseFigmaResponse(file);
+
+    expect(nodes[0].children![2].styleOverrides).toBeUndefined();
+    expect(globalVars.styleNames).toBeUndefined();
+  });
+
+  it("can use hashed IDs for named styles too", () => {
+    const { nodes } = parseFigmaResponse(buildFile(), { namedStyleIds: false });
+
+    expect(nodes[0].children![0].fills).toMatch(/^fill_[0-9A-F]{6}$/);
+  });
+});
+
+describe("parseFigmaResponse with variables", () => {
+  const variables: FigmaVariables = {
+    variables: {
+      "VariableID:1": {
+        name: "color/brand/primary",
+        collectionId: "C:1",
+        resolvedType: "COLOR",
+        valuesByMode: {
+          "M:1": { r: 0, g: 0.4, b: 1, a: 1 },
+          "M:2": { type: "VARIABLE_ALIAS", id: "VariableID:2" },
+        },
+      },
+      "VariableID:2": {
+        name: "color/white",
+        collectionId: "C:1",
+        resolvedType: "COLOR",
+        valuesByMode: { "M:1": { r: 1, g: 1, b: 1, a: 1 } },
+      },
+    },
+    collections: {
+      "C:1": {
+        name: "Theme",
+        modes: [
+          { modeId: "M:1", name: "Light" },
+          { modeId: "M:2", name: "Dark" },
+        ],
+        defaultModeId: "M:1",
+      },
+    },
+  };
+
+  function buildBoundFile(): GetFileResponse {
+    const file = buildFile();
+    const [, unstyled] = getPageNodes(file) as RectangleNode[];
+    (unstyled.fills[0] as SolidPaint).boundVariables = {
+      color: { type: "VARIABLE_ALIAS", id: "VariableID:1" },
+    };
+    unstyled.explicitVariableModes = { "C:1": "M:2" };
+    return file;
+  }
+
+  it("resolves bound paints into named variables with their mode values", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildBoundFile(), { variables });
+    const unstyled = nodes[0].children![1];
+
+    expect(unstyled.variables).toEqual({ fills: "var_color_brand_primary" });
+    expect(unstyled.variableModes).toEqual({ Theme: "Dark" });
+    expect(globalVars.variables).toEqual({
+      var_color_brand_primary: {
+        name: "color/brand/primary",
+        collection: "Theme",
+        type: "COLOR",
+        value: "#0066FF",
+        valuesByMode: { Light: "#0066FF", Dark: "{color/white}" },
+      },
+    });
+  });
+
+  it("leaves the output unchanged without variables", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildBoundFile());
+
+    expect(nodes[0].children![1].variables).toBeUndefined();
+    expect(globalVars.variables).toBeUndefined();
+  });
+});
+
+describe("parseFigmaResponse with components", () => {
+  function buildInstanceFile(overrides: { id: string; overriddenFields: string[] }[]) {
+    const file = buildFile({
+      components: {
+        "2:1": {
+          key: "c1",
+          name: "Size=Large",
+          description: "",
+          componentSetId: "2:0",
+          documentationLinks: [],
+          remote: false,
+        },
+        "2:9": {
+          key: "c9",
+          name: "Icon/Star",
+          description: "",
+          documentationLinks: [],
+          remote: true,
+        },
+      },
+      componentSets: { "2:0": { key: "s1", name: "Button", description: "Primary action" } },
+    });
+    addToPage(file, {
+      id: "3:1",
+      name: "Button",
+      type: "INSTANCE",
+      componentId: "2:1",
+      componentProperties: {
+        Size: { type: "VARIANT", value: "Large" },
+        "Label#12:0": { type: "TEXT", value: "Buy" },
+        "Show icon#12:1": { type: "BOOLEAN", value: true },
+        "Icon#12:2": { type: "INSTANCE_SWAP", value: "2:9" },
+      },
+      overrides,
+      children: [{ id: "I3:1;1:1", name: "Label", type: "TEXT", characters: "Buy" } as TextNode],
+    });
+    return file;
+  }
+
+  function buildComponentSet(labelDefault = "Buy") {
+    return {
+      id: "2:0",
+      name: "Button",
+      type: "COMPONENT_SET",
+      componentPropertyDefinitions: {
+        Size: { type: "VARIANT", defaultValue: "Large" },
+        "Label#12:0": { type: "TEXT", defaultValue: labelDefault },
+        "Show icon#12:1": { type: "BOOLEAN", defaultValue: true },
+        "Icon#12:2": { type: "INSTANCE_SWAP", defaultValue: "2:9" },
+      },
+      children: [{ id: "2:1", name: "Size=Large", type: "COMPONENT", children: [] }],
+    } as unknown as FigmaDocumentNode;
+  }
+
+  it("describes instances and lists the components they use", () => {
+    const { nodes, components, componentSets } = parseFigmaResponse(buildInstanceFile([]));
+    const instance = nodes[0].children![2];
+
+    expect(instance).toMatchObject({
+      componentId: "2:1",
+      variant: { Size: "Large" },
+      componentProperties: { Label: "Buy", "Show icon": true, Icon: "Icon/Star" },
+    });
+    expect(instance.children).toHaveLength(1);
+    expect(components!["2:1"]).toEqual({ key: "c1", name: "Size=Large", componentSetId: "2:0" });
+    expect(componentSets).toEqual({
+      "2:0": { key: "s1", name: "Button", description: "Primary action" },
+    });
+  });
+
+  it("collapses only instances that match their main component", () => {
+    const collapse = { collapseInstances: true, componentNodes: [buildComponentSet()] };
+    const pristine = parseFigmaResponse(buildInstanceFile([]), collapse).nodes[0].children![2];
+    const overridden = parseFigmaResponse(
+      buildInstanceFile([{ id: "I3:1;1:1", overriddenFields: ["characters"] }]),
+      collapse,
+    ).nodes[0].children![2];
+
+    expect(pristine.collapsed).toBe(true);
+    expect(pristine.children).toBeUndefined();
+    expect(overridden.collapsed).toBeUndefined();
+    expect(overridden.children).toHaveLength(1);
+  });
+
+  it("keeps the children of instances whose component properties differ or are unknown", () => {
+    const file = buildInstanceFile([]);
+    addToPage(file, buildComponentSet("Add to cart"));
+    const changed = parseFigmaResponse(file, { collapseInstances: true }).nodes[0].children![2];
+    const unknown = parseFigmaResponse(buildInstanceFile([]), { collapseInstances: true }).nodes[0]
+      .children![2];
+
+    expect(changed.collapsed).toBeUndefined();
+    expect(changed.children).toHaveLength(1);
+    expect(unknown.collapsed).toBeUndefined();
+    expect(unknown.children).toHaveLength(1);
+  });
+});
+
+describe("parseFigmaResponse with rich text", () => {
+  it("splits mixed-style text into segments and maps truncation to CSS", () => {
+    const file = buildFile();
+    addToPage(file, {
+      id: "4:1",
+      name: "Body",
+      type: "TEXT",
+      characters: "Read the docs now",
+      style: {
+        fontFamily: "Inter",
+        fontWeight: 400,
+        fontSize: 16,
+        textTruncation: "ENDING",
+        maxLines: 2,
+      },
+      characterStyleOverrides: [0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1],
+      styleOverrideTable: {
+        "1": {
+          fontWeight: 700,
+          textDecoration: "UNDERLINE",
+          hyperlink: { type: "URL", url: "https://example.com/docs" },
+        },
+      },
+      lineTypes: ["NONE"],
+      lineIndentations: [0],
+    });
+    const { nodes, globalVars } = parseFigmaResponse(file);
+    const body = nodes[0].children![2];
+
+    expect(body.textSegments).toEqual([
+      { text: "Read the " },
+      {
+        text: "docs",
+        fontWeight: 700,
+        textDecoration: "underline",
+        href: "https://example.com/docs",
+      },
+      { text: " now" },
+    ]);
+    expect(body.textLines).toBeUndefined();
+    expect(globalVars.styles[body.textStyle as keyof typeof globalVars.styles]).toMatchObject({
+      textOverflow: "ellipsis",
+      lineClamp: 2,
+    });
+  });
+});
+
+describe("parseFigmaResponse with gradient and image fills", () => {
+  function buildLayeredFile(): GetFileResponse {
+    const file = buildFile();
+    addToPage(file, {
+      id: "5:1",
+      name: "Hero",
+      type: "RECTANGLE",
+      absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 100 },
+      fills: [
+        { type: "IMAGE", blendMode: "NORMAL", imageRef: "img1", scaleMode: "FIT" },
+        {
+          type: "GRADIENT_LINEAR",
+          blendMode: "NORMAL",
+          gradientHandlePositions: [
+            { x: 0, y: 0.5 },
+            { x: 1, y: 0.5 },
+            { x: 0, y: 1 },
+          ],
+          gradientStops: [
+            { position: 0, color: { r: 1, g: 0, b: 0, a: 1 } },
+            { position: 1, color: { r: 0, g: 0, b: 1, a: 0.5 } },
+          ],
+        },
+      ],
+    });
+    return file;
+  }
+
+  it("converts fills into CSS background layers, topmost first", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildLayeredFile());
+    const hero = nodes[0].children![2];
+
+    expect(globalVars.styles[hero.fills as keyof typeof globalVars.styles]).toEqual([
+      "linear-gradient(90deg, #FF0000 0%, rgba(0, 0, 255, 0.5) 100%)",
+      {
+        type: "IMAGE",
+        imageRef: "img1",
+        scaleMode: "FIT",
+        backgroundSize: "contain",
+        backgroundRepeat: "no-repeat",
+        backgroundPosition: "center",
+      },
+    ]);
+  });
+
+  it("keeps the raw gradient data when asked to", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildLayeredFile(), { rawPaints: true });
+    const fills = globalVars.styles[nodes[0].children![2].fills as keyof typeof globalVars.styles];
+
+    expect((fills as Record<string, unknown>[])[0]).toMatchObject({
+      type: "GRADIENT_LINEAR",
+      gradient: "linear-gradient(90deg, #FF0000 0%, rgba(0, 0, 255, 0.5) 100%)",
+      gradientHandlePositions: expect.any(Array),
+    });
+  });
+});
+
+describe("parseFigmaResponse with responsive layout", () => {
+  const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+  function buildLayoutFile(): GetFileResponse {
+    const file = buildFile();
+    addToPage(
+      file,
+      {
+        id: "6:1",
+        name: "Canvas",
+        type: "FRAME",
+        clipsContent: true,
+        layoutMode: "NONE",
+        absoluteBoundingBox: box(0, 0, 400, 300),
+        children: [
+          {
+            id: "6:2",
+            name: "Badge",
+            type: "RECTANGLE",
+            constraints: { horizontal: "RIGHT", vertical: "BOTTOM" },
+            absoluteBoundingBox: box(350, 260, 40, 30),
+          } as RectangleNode,
+          {
+            id: "6:3",
+            name: "Banner",
+            type: "RECTANGLE",
+            constraints: { horizontal: "SCALE", vertical: "CENTER" },
+            absoluteBoundingBox: box(40, 130, 320, 20),
+          } as RectangleNode,
+        ],
+      },
+      {
+        id: "7:1",
+        name: "Tags",
+        type: "FRAME",
+        clipsContent: false,
+        layoutMode: "HORIZONTAL",
+        layoutWrap: "WRAP",
+        itemSpacing: 8,
+        counterAxisSpacing: 12,
+        strokesIncludedInLayout: true,
+        maxWidth: 320,
+        absoluteBoundingBox: box(0, 400, 320, 60),
+        children: [],
+      },
+      // Grid auto layout isn't part of the REST API types yet
+      {
+        id: "8:1",
+        name: "Gallery",
+        type: "FRAME",
+        clipsContent: false,
+        layoutMode: "GRID",
+        gridColumnCount: 3,
+        gridRowCount: 2,
+        gridRowGap: 16,
+        gridColumnGap: 16,
+        absoluteBoundingBox: box(0, 500, 300, 200),
+        children: [
+          {
+            id: "8:2",
+            name: "Feature",
+            type: "RECTANGLE",
+            gridColumnAnchorIndex: 1,
+            gridColumnSpan: 2,
+            gridChildVerticalAlign: "CENTER",
+            absoluteBoundingBox: box(100, 500, 200, 100),
+          },
+        ],
+      } as never,
+    );
+    return file;
+  }
+
+  it("pins children of frames without auto layout by their constraints", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildLayoutFile());
+    const [badge, banner] = nodes[0].children![2].children!;
+    const layout = (id?: string) => globalVars.styles[id as keyof typeof globalVars.styles];
+
+    expect(layout(badge.layout)).toMatchObject({
+      offsets: { right: "10px", bottom: "10px" },
+      dimensions: { width: 40, height: 30 },
+    });
+    expect(layout(banner.layout)).toMatchObject({
+      offsets: { left: "10%", right: "10%", top: "calc(50% - 20px)" },
+      dimensions: { height: 20 },
+    });
+    expect(layout(banner.layout)).not.toHaveProperty("locationRelativeToParent");
+  });
+
+  it("pins children of frames that leave out layoutMode", () => {
+    const file = buildLayoutFile();
+    delete (getPageNodes(file)[2] as FrameNode).layoutMode;
+
+    const { nodes, globalVars } = parseFigmaResponse(file);
+    const [badge] = nodes[0].children![2].children!;
+
+    expect(globalVars.styles[badge.layout as keyof typeof globalVars.styles]).toMatchObject({
+      offsets: { right: "10px", bottom: "10px" },
+    });
+  });
+
+  it("models wrapping, min/max sizes and grid auto layout", () => {
+    const { nodes, globalVars } = parseFigmaResponse(buildLayoutFile());
+    const [, , , tags, gallery] = nodes[0].children!;
+    const layout = (id?: string) => globalVars.styles[id as keyof typeof globalVars.styles];
+
+    expect(layout(tags.layout)).toMatchObject({
+      mode: "row",
+      wrap: true,
+      gap: "12px 8px",
+      boxSizing: "border-box",
+      dimensions: { maxWidth: 320 },
+    });
+    expect(layout(gallery.layout)).toMatchObject({
+      mode: "grid",
+      gridTemplateColumns: "repeat(3, minmax(0, 1fr))",
+      gridTemplateRows: "repeat(2, minmax(0, 1fr))",
+      gap: "16px",
+    });
+    expect(layout(gallery.children![0].layout)).toMatchObject({
+      gridColumn: "2 / span 2",
+      alignSelf: "center",
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import type { SimplifiedDesign, SimplifiedNode } from "../services/simplify-node-response.js";
+import { applyTokenBudget, estimateTokens } from "../services/token-budget.js";
+
+function buildPage(): SimplifiedDesign {
+  const section = (i: number): SimplifiedNode => ({
+    id: `2:${i}`,
+    name: `Section ${i}`,
+    type: "FRAME",
+    layout: "layout_column",
+    children: Array.from({ length: 20 }, (_, j) => ({
+      id: `3:${i * 100 + j}`,
+      name: `Paragraph ${j}`,
+      type: "TEXT",
+      text: `Paragraph ${j} of section ${i}, long enough to cost a few tokens`,
+      textStyle: `style_text_${i}`,
+    })),
+  });
+  return {
+    name: "Big file",
+    lastModified: "2024-01-01T00:00:00Z",
+    thumbnailUrl: "",
+    nodes: [
+      {
+        id: "1:1",
+        name: "Page",
+        type: "FRAME",
+        children: [section(1), section(2), section(3)],
+      },
+    ],
+    globalVars: {
+      styles: {
+        layout_column: { mode: "column" },
+        style_text_1: { fontSize: 12 },
+        style_text_2: { fontSize: 14 },
+        style_text_3: { fontSize: 16 },
+      },
+    },
+  } as unknown as SimplifiedDesign;
+}
+
+describe("applyTokenBudget", () => {
+  it("returns the design unchanged when it fits", () => {
+    const design = buildPage();
+    expect(applyTokenBudget(design, 100_000)).toBe(design);
+  });
+
+  it("expands breadth first and stubs subtrees that don't fit", () => {
+    const design = buildPage();
+    const budgeted = applyTokenBudget(design, 400);
+    const page = budgeted.nodes[0];
+
+    expect(estimateTokens(budgeted)).toBeLessThanOrEqual(400);
+    expect(page.truncated).toBeUndefined();
+    expect(page.children!.map((section) => section.id)).toEqual(["2:1", "2:2", "2:3"]);
+    expect(page.children![0]).toEqual({
+      id: "2:1",
+      name: "Section 1",
+      type: "FRAME",
+      layout: "layout_column",
+      truncated: {
+        childCount: 20,
+        nodeCount: 20,
+        summary:
+          '20 TEXT; text "Paragraph 0 of section 1, lon…", "Paragraph 1 of section 1, lon…", "Paragraph 2 of section 1, lon…"',
+      },
+    });
+    // Styles only used by left-out nodes are dropped
+    expect(Object.keys(budgeted.globalVars.styles)).toEqual(["layout_column"]);
+    // The input is left alone
+    expect(design.nodes[0].children![0].children).toHaveLength(20);
+  });
+
+  it("expands whichever subtrees still fit", () => {
+    const budgeted = applyTokenBudget(buildPage(), 1500);
+    const expanded = budgeted.nodes[0].children!.filter((section) => section.children);
+
+    expect(estimateTokens(budgeted)).toBeLessThanOrEqual(1500);
+    expect(expanded.length).toBeGreaterThan(0);
+    expect(expanded.length).toBeLessThan(3);
+    expect(Object.keys(budgeted.globalVars.styles)).toContain("style_text_1");
+  });
+
+  it("measures the budget in the requested format", () => {
+    const design = buildPage();
+    const asYaml = applyTokenBudget(design, 1200, "yaml");
+    const asJson = applyTokenBudget(design, 1200, "json");
+
+    expect(estimateTokens(asYaml, "yaml")).toBeLessThanOrEqual(1200);
+    expect(estimateTokens(asJson, "json")).toBeLessThanOrEqual(1200);
+    // yaml indents nested nodes, so less of the page fits than as json
+    const countNodes = (nodes: SimplifiedNode[] = []): number =>
+      nodes.reduce((total, node) => total + 1 + countNodes(node.children), 0);
+    expect(countNodes(asYaml.nodes)).toBeLessThan(countNodes(asJson.nodes));
+  });
+
+  it("measures outline and markdown as formatted, not as yaml", () => {
+    const design = buildPage();
+    const countNodes = (nodes: SimplifiedNode[] = []): number =>
+      nodes.reduce((total, node) => total + 1 + countNodes(node.children), 0);
+    const asYaml = applyTokenBudget(design, 1000, "yaml");
+
+    for (const format of ["outline", "markdown"] as const) {
+      const budgeted = applyTokenBudget(design, 1000, format);
+      expect(estimateTokens(budgeted, format)).toBeLessThanOrEqual(1000);
+      expect(countNodes(budgeted.nodes)).toBeGreaterThan(countNodes(asYaml.nodes));
+    }
+  });
+
+  it("reports when the top-level nodes alone exceed the budget", () => {
+    const budgeted = applyTokenBudget(buildPage(), 20);
+
+    expect(budgeted.nodes[0].children).toBeUndefined();
+    expect(budgeted.tokenBudgetExceeded).toEqual({
+      maxTokens: 20,
+      estimatedTokens: expect.any(Number),
+    });
+    expect(budgeted.tokenBudgetExceeded!.estimatedTokens).toBeGreaterThan(20);
+    expect(applyTokenBudget(buildPage(), 400).tokenBudgetExceeded).toBeUndefined();
+  });
+});
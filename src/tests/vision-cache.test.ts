@@ -0,0 +1,113 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { CachedVisionProvider, VisionCache } from "../services/vision-cache.js";
+import type { VisionProvider } from "../services/vision.js";
+
+function fakeProvider(baseUrl = "http://localhost:11434/v1"): VisionProvider & {
+  analyzeImage: jest.Mock;
+} {
+  return {
+    name: "openai-compatible",
+    baseUrl,
+    model: "llava",
+    prompt: "Describe the image",
+    analyzeImage: jest.fn(async () => "A button"),
+  };
+}
+
+describe("VisionCache", () => {
+  const originalFetch = global.fetch;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "vision-cache-"));
+    global.fetch = jest.fn(async () => new Response("same-bytes")) as jest.Mock;
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("downloads each image once and reuses answers for identical bytes", async () => {
+    const provider = fakeProvider();
+    const cached = new CachedVisionProvider(provider, new VisionCache({ dir }));
+
+    expect(await cached.analyzeImage("https://cdn.example.com/a.png?sig=1")).toBe("A button");
+    expect(await cached.analyzeImage("https://cdn.example.com/a.png?sig=2")).toBe("A button");
+
+    expect(provider.analyzeImage).toHaveBeenCalledTimes(1);
+    // The provider gets the bytes the cache already downloaded
+    expect(provider.analyzeImage.mock.calls[0][1]).toMatchObject({
+      contentType: expect.any(String),
+    });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps answers from different endpoints apart", async () => {
+    const cache = new VisionCache({ dir });
+    const local = fakeProvider("http://localhost:11434/v1");
+    const remote = fakeProvider("https://llm.example.com/v1");
+
+    await new CachedVisionProvider(local, cache).analyzeImage("https://cdn.example.com/a.png");
+    await new CachedVisionProvider(remote, cache).analyzeImage("https://cdn.example.com/a.png");
+
+    expect(local.analyzeImage).toHaveBeenCalledTimes(1);
+    expect(remote.analyzeImage).toHaveBeenCalledTimes(1);
+    expect(cache.invalidate({ baseUrl: "https://llm.example.com/v1" })).toBe(1);
+  });
+
+  it("writes the index on set and flush, not on every hit", () => {
+    const cache = new VisionCache({ dir });
+    const key = {
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      model: "gpt-4o",
+      promptVersion: "v1",
+      contentHash: "a",
+    };
+    cache.set(key, "A");
+    const write = jest.spyOn(fs, "writeFileSync");
+
+    expect(cache.get(key)).toBe("A");
+    expect(cache.get(key)).toBe("A");
+    expect(write).not.toHaveBeenCalled();
+
+    cache.flush();
+    cache.flush();
+    expect(write).toHaveBeenCalledTimes(1);
+  });
+
+  it("remembers reads across restarts when evicting least recently used entries", () => {
+    const now = jest.spyOn(Date, "now");
+    const key = (contentHash: string) => ({
+      provider: "openai",
+      baseUrl: "https://api.openai.com/v1",
+      model: "gpt-4o",
+      promptVersion: "v1",
+      contentHash,
+    });
+
+    const first = new VisionCache({ dir, maxEntries: 2 });
+    now.mockReturnValue(1_000);
+    first.set(key("a"), "A");
+    now.mockReturnValue(2_000);
+    first.set(key("b"), "B");
+    now.mockReturnValue(3_000);
+    expect(first.get(key("a"))).toBe("A");
+    first.flush();
+
+    const restarted = new VisionCache({ dir, maxEntries: 2 });
+    now.mockReturnValue(4_000);
+    restarted.set(key("c"), "C");
+
+    expect(restarted.get(key("a"))).toBe("A");
+    expect(restarted.get(key("b"))).toBeUndefined();
+    expect(restarted.get(key("c"))).toBe("C");
+  });
+});
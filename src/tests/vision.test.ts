@@ -0,0 +1,92 @@
+import {
+  createVisionProvider,
+  NoneVisionProvider,
+  OpenAIVisionProvider,
+  validateVisionConfig,
+} from "../services/vision.js";
+
+describe("validateVisionConfig", () => {
+  it("reports missing settings and bad token limits", () => {
+    expect(validateVisionConfig({ provider: "none" })).toBeUndefined();
+    expect(validateVisionConfig({ provider: "openai", apiKey: "sk" })).toBeUndefined();
+    expect(validateVisionConfig({ provider: "openai" })).toContain("requires an API key");
+    expect(validateVisionConfig({ provider: "openai-compatible", model: "llava" })).toContain(
+      "requires a base URL",
+    );
+    expect(
+      validateVisionConfig({ provider: "openai-compatible", baseUrl: "http://localhost" }),
+    ).toContain("requires a model name");
+    expect(validateVisionConfig({ provider: "none", maxTokens: NaN })).toContain(
+      "VISION_MAX_TOKENS must be a positive integer",
+    );
+    expect(validateVisionConfig({ provider: "none", maxTokens: 0 })).toBeDefined();
+  });
+
+  it("creates the configured provider or throws the validation error", () => {
+    expect(createVisionProvider({ provider: "none" })).toBeInstanceOf(NoneVisionProvider);
+    expect(createVisionProvider({ provider: "openai", apiKey: "sk" })).toBeInstanceOf(
+      OpenAIVisionProvider,
+    );
+    expect(() => createVisionProvider({ provider: "openai" })).toThrow("requires an API key");
+  });
+});
+
+describe("OpenAIVisionProvider", () => {
+  const originalFetch = global.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("sends local servers the image inline and returns the model's answer", async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url.startsWith("https://cdn.example.com")
+        ? new Response("png", { headers: { "content-type": "image/png" } })
+        : new Response(JSON.stringify({ choices: [{ message: { content: " 버튼 " } }] })),
+    );
+
+    const provider = createVisionProvider({
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:11434/v1/",
+      model: "llava",
+      maxTokens: 64,
+    });
+    const description = await provider.analyzeImage("https://cdn.example.com/a.png");
+
+    expect(description).toBe("버튼");
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe("http://localhost:11434/v1/chat/completions");
+    expect(init.headers).not.toHaveProperty("Authorization");
+    const body = JSON.parse(init.body);
+    expect(body).toMatchObject({ model: "llava", max_tokens: 64 });
+    expect(body.messages[0].content[1].image_url.url).toBe(
+      `data:image/png;base64,${Buffer.from("png").toString("base64")}`,
+    );
+  });
+
+  it("uses image bytes it is given instead of downloading them again", async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: "아이콘" } }] })),
+    );
+
+    const provider = createVisionProvider({
+      provider: "openai-compatible",
+      baseUrl: "http://localhost:11434/v1",
+      model: "llava",
+    });
+    await provider.analyzeImage("https://cdn.example.com/a.png", {
+      data: new TextEncoder().encode("svg"),
+      contentType: "image/svg+xml",
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content[1].image_url.url).toMatch(/^data:image\/svg\+xml;base64,/);
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  Component,
+  ComponentProperty,
+  ComponentPropertyDefinition,
+  ComponentSet,
+  Node as FigmaDocumentNode,
+} from "@figma/rest-api-spec";
+import { hasValue } from "~/utils/identity.js";
+
+export type SimplifiedComponentDefinition = {
+  key: string;
+  name: string;
+  description?: string;
+  componentSetId?: string;
+  /**
+   * True if the component comes from a team library rather than this file
+   */
+  remote?: boolean;
+};
+
+export type SimplifiedComponentSetDefinition = {
+  key: string;
+  name: string;
+  description?: string;
+};
+
+export type SimplifiedComponentInstance = {
+  componentId: string;
+  /**
+   * Variant property values, e.g. { Size: "Large", State: "Hover" }
+   */
+  variant?: Record<string, string>;
+  /**
+   * Boolean, text and instance swap property values. Swapped instances are given by component name
+   */
+  componentProperties?: Record<string, string | boolean>;
+};
+
+export function simplifyComponents(
+  components: Record<string, Component>,
+): Record<string, SimplifiedComponentDefinition> {
+  return Object.fromEntries(
+    Object.entries(components).map(([id, { key, name, description, componentSetId, remote }]) => [
+      id,
+      {
+        key,
+        name,
+        description: description || undefined,
+        componentSetId,
+        remote: remote || undefined,
+      },
+    ]),
+  );
+}
+
+export function simplifyComponentSets(
+  componentSets: Record<string, ComponentSet>,
+): Record<string, SimplifiedComponentSetDefinition> {
+  return Object.fromEntries(
+    Object.entries(componentSets).map(([id, { key, name, description }]) => [
+      id,
+      { key, name, description: description || undefined },
+    ]),
+  );
+}
+
+/**
+ * Describe which component, variant and property values an instance uses
+ * @param n - The node, only instances produce a result
+ * @param components - The file's components, used to name swapped instances
+ */
+export function buildComponentInstance(
+  n: FigmaDocumentNode,
+  components: Record<string, Component>,
+): SimplifiedComponentInstance | undefined {
+  if (n.type !== "INSTANCE") return undefined;
+
+  const instance: SimplifiedComponentInstance = { componentId: n.componentId };
+  const properties = Object.entries(n.componentProperties ?? {}) as [string, ComponentProperty][];
+  for (const [rawName, { type, value }] of properties) {
+    if (type === "VARIANT") {
+      (instance.variant ??= {})[rawName] = String(value);
+      continue;
+    }
+    // Figma suffixes non-variant property names with a unique ID, e.g. "Label#12:0"
+    const name = rawName.replace(/#[^#]*$/, "");
+    (instance.componentProperties ??= {})[name] =
+      type === "INSTANCE_SWAP" && typeof value === "string"
+        ? (components[value]?.name ?? value)
+        : value;
+  }
+  return instance;
+}
+
+/**
+ * Component property definitions by component ID, read from the component and component set
+ * nodes in a tree. Variants take the definitions of their component set
+ */
+export type ComponentPropertyDefinitions = Record<
+  string,
+  Record<string, ComponentPropertyDefinition>
+>;
+
+export function collectComponentPropertyDefinitions(
+  nodes: FigmaDocumentNode[],
+  definitions: ComponentPropertyDefinitions = {},
+  inherited?: Record<string, ComponentPropertyDefinition>,
+): ComponentPropertyDefinitions {
+  for (const n of nodes) {
+    const own = hasValue("componentPropertyDefinitions", n)
+      ? (n.componentPropertyDefinitions as Record<string, ComponentPropertyDefinition>)
+      : undefined;
+    if (n.type === "COMPONENT") definitions[n.id] = own ?? inherited ?? {};
+    if (hasValue("children", n)) {
+      collectComponentPropertyDefinitions(
+        n.children,
+        definitions,
+        n.type === "COMPONENT_SET" ? own : undefined,
+      );
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Whether an instance is unchanged from its main component, so its children can be left out:
+ * nothing in it is overridden and its boolean, text and instance swap properties keep their
+ * defaults. Without the main component's definitions those defaults are unknown, so only
+ * instances without such properties count as unchanged
+ * @param n - The node
+ * @param definitions - Property definitions of the components in the file
+ */
+export function isPristineInstance(
+  n: FigmaDocumentNode,
+  definitions: ComponentPropertyDefinitions = {},
+): boolean {
+  if (n.type !== "INSTANCE" || (hasValue("overrides", n) && n.overrides.length > 0)) return false;
+
+  const properties = Object.entries(n.componentProperties ?? {}).filter(
+    ([, { type }]) => type !== "VARIANT",
+  );
+  const defaults = definitions[n.componentId];
+  return properties.every(([name, { value }]) => defaults?.[name]?.defaultValue === value);
+}
@@ -3,24 +3,56 @@ import type {
   Node as FigmaDocumentNode,
   HasFramePropertiesTrait,
   HasLayoutTrait,
+  LayoutConstraint,
+  Rectangle,
 } from "@figma/rest-api-spec";
 import { generateCSSShorthand } from "~/utils/common.js";
+import { hasValue } from "~/utils/identity.js";
 
 export interface SimplifiedLayout {
-  mode: "none" | "row" | "column";
+  mode: "none" | "row" | "column" | "grid";
   justifyContent?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
   alignItems?: "flex-start" | "flex-end" | "center" | "space-between" | "baseline" | "stretch";
+  /**
+   * Alignment of wrapped rows
+   */
+  alignContent?: "space-between";
   alignSelf?: "flex-start" | "flex-end" | "center" | "stretch";
+  justifySelf?: "flex-start" | "flex-end" | "center";
   wrap?: boolean;
+  /**
+   * CSS gap. Wrapped and grid layouts give the row gap first, e.g. "16px 8px"
+   */
   gap?: string;
+  gridTemplateColumns?: string;
+  gridTemplateRows?: string;
+  /**
+   * Placement within a grid parent, e.g. "2 / span 2"
+   */
+  gridColumn?: string;
+  gridRow?: string;
   locationRelativeToParent?: {
     x: number;
     y: number;
   };
+  /**
+   * CSS insets for absolutely positioned nodes, derived from the node's constraints so they keep
+   * their place when the parent resizes
+   */
+  offsets?: {
+    top?: string;
+    right?: string;
+    bottom?: string;
+    left?: string;
+  };
   dimensions?: {
     width?: number;
     height?: number;
     aspectRatio?: number;
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
   };
   padding?: string;
   sizing?: {
@@ -29,8 +61,31 @@ export interface SimplifiedLayout {
   };
   overflowScroll?: ("x" | "y")[];
   position?: "absolute";
+  /**
+   * Set when strokes take up space inside the frame, like a CSS border would
+   */
+  boxSizing?: "border-box";
 }
 
+// Grid auto layout, layoutMode "GRID", isn't part of the REST API types yet
+type GridFrameProperties = {
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+  gridRowsSizing?: string;
+  gridColumnsSizing?: string;
+};
+
+type GridChildProperties = Partial<{
+  gridRowSpan: number;
+  gridColumnSpan: number;
+  gridRowAnchorIndex: number;
+  gridColumnAnchorIndex: number;
+  gridChildHorizontalAlign: "AUTO" | "MIN" | "CENTER" | "MAX";
+  gridChildVerticalAlign: "AUTO" | "MIN" | "CENTER" | "MAX";
+}>;
+
 // Convert Figma's layout config into a more typical flex-like schema
 export function buildSimplifiedLayout(
   n: FigmaDocumentNode,
@@ -50,10 +105,10 @@ function convertAlign(
   stretch?: {
     children: FigmaDocumentNode[];
     axis: "primary" | "counter";
-    mode: "row" | "column" | "none";
+    mode: SimplifiedLayout["mode"];
   },
 ) {
-  if (stretch && stretch.mode !== "none") {
+  if (stretch && (stretch.mode === "row" || stretch.mode === "column")) {
     const { children, mode, axis } = stretch;
 
     // Compute whether to check horizontally or vertically based on axis and direction
@@ -122,22 +177,14 @@ function getDirection(
   axis: "primary" | "counter",
   mode: "row" | "column",
 ): "horizontal" | "vertical" {
-  switch (axis) {
-    case "primary":
-      switch (mode) {
-        case "row":
-          return "horizontal";
-        case "column":
-          return "vertical";
-      }
-    case "counter":
-      switch (mode) {
-        case "row":
-          return "horizontal";
-        case "column":
-          return "vertical";
-      }
-  }
+  // The counter axis runs across the primary one
+  const primary = mode === "row" ? "horizontal" : "vertical";
+  const counter = mode === "row" ? "vertical" : "horizontal";
+  return axis === "primary" ? primary : counter;
+}
+
+function isGridFrame(val: unknown): val is GridFrameProperties {
+  return hasValue("layoutMode", val) && val.layoutMode === "GRID";
 }
 
 function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | { mode: "none" } {
@@ -145,40 +192,56 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
     return { mode: "none" };
   }
 
-  const frameValues: SimplifiedLayout = {
-    mode:
-      !n.layoutMode || n.layoutMode === "NONE"
-        ? "none"
-        : n.layoutMode === "HORIZONTAL"
-          ? "row"
-          : "column",
-  };
+  const mode: SimplifiedLayout["mode"] = isGridFrame(n)
+    ? "grid"
+    : !n.layoutMode || n.layoutMode === "NONE"
+      ? "none"
+      : n.layoutMode === "HORIZONTAL"
+        ? "row"
+        : "column";
+  const frameValues: SimplifiedLayout = { mode };
 
   const overflowScroll: SimplifiedLayout["overflowScroll"] = [];
   if (n.overflowDirection?.includes("HORIZONTAL")) overflowScroll.push("x");
   if (n.overflowDirection?.includes("VERTICAL")) overflowScroll.push("y");
   if (overflowScroll.length > 0) frameValues.overflowScroll = overflowScroll;
 
-  if (frameValues.mode === "none") {
+  if (mode === "none") {
     return frameValues;
   }
 
-  // TODO: convertAlign should be two functions, one for justifyContent and one for alignItems
-  frameValues.justifyContent = convertAlign(n.primaryAxisAlignItems ?? "MIN", {
-    children: n.children,
-    axis: "primary",
-    mode: frameValues.mode,
-  });
-  frameValues.alignItems = convertAlign(n.counterAxisAlignItems ?? "MIN", {
-    children: n.children,
-    axis: "counter",
-    mode: frameValues.mode,
-  });
+  if (isGridFrame(n)) {
+    frameValues.gridTemplateColumns =
+      n.gridColumnsSizing || `repeat(${n.gridColumnCount ?? 1}, minmax(0, 1fr))`;
+    frameValues.gridTemplateRows =
+      n.gridRowsSizing || `repeat(${n.gridRowCount ?? 1}, minmax(0, 1fr))`;
+    frameValues.gap = buildGap(n.gridRowGap, n.gridColumnGap);
+  } else {
+    // TODO: convertAlign should be two functions, one for justifyContent and one for alignItems
+    frameValues.justifyContent = convertAlign(n.primaryAxisAlignItems ?? "MIN", {
+      children: n.children,
+      axis: "primary",
+      mode,
+    });
+    frameValues.alignItems = convertAlign(n.counterAxisAlignItems ?? "MIN", {
+      children: n.children,
+      axis: "counter",
+      mode,
+    });
+
+    // Only include wrap if it's set to WRAP, since flex layouts don't default to wrapping
+    frameValues.wrap = n.layoutWrap === "WRAP" ? true : undefined;
+    if (frameValues.wrap) {
+      // Wrapped tracks have their own spacing. Only horizontal layouts can wrap, so it's the row gap
+      frameValues.gap = buildGap(n.counterAxisSpacing ?? n.itemSpacing, n.itemSpacing);
+      frameValues.alignContent =
+        n.counterAxisAlignContent === "SPACE_BETWEEN" ? "space-between" : undefined;
+    } else {
+      frameValues.gap = n.itemSpacing ? `${n.itemSpacing ?? 0}px` : undefined;
+    }
+  }
   frameValues.alignSelf = convertSelfAlign(n.layoutAlign);
 
-  // Only include wrap if it's set to WRAP, since flex layouts don't default to wrapping
-  frameValues.wrap = n.layoutWrap === "WRAP" ? true : undefined;
-  frameValues.gap = n.itemSpacing ? `${n.itemSpacing ?? 0}px` : undefined;
   // gather padding
   if (n.paddingTop || n.paddingBottom || n.paddingLeft || n.paddingRight) {
     frameValues.padding = generateCSSShorthand({
@@ -188,6 +251,7 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
       left: n.paddingLeft ?? 0,
     });
   }
+  frameValues.boxSizing = n.strokesIncludedInLayout ? "border-box" : undefined;
 
   return frameValues;
 }
@@ -195,7 +259,7 @@ function buildSimplifiedFrameValues(n: FigmaDocumentNode): SimplifiedLayout | {
 function buildSimplifiedLayoutValues(
   n: FigmaDocumentNode,
   parent: FigmaDocumentNode | undefined,
-  mode: "row" | "column" | "none",
+  mode: SimplifiedLayout["mode"],
 ): SimplifiedLayout | undefined {
   if (!isLayout(n)) return undefined;
 
@@ -206,24 +270,57 @@ function buildSimplifiedLayoutValues(
     vertical: convertSizing(n.layoutSizingVertical),
   };
 
+  const dimensions: NonNullable<SimplifiedLayout["dimensions"]> = {
+    minWidth: n.minWidth,
+    maxWidth: n.maxWidth,
+    minHeight: n.minHeight,
+    maxHeight: n.maxHeight,
+  };
+
   // Only include positioning-related properties if parent layout isn't flex or if the node is absolute
-  if (isFrame(parent) && (parent?.layoutMode === "NONE" || n.layoutPositioning === "ABSOLUTE")) {
+  if (
+    isFrame(parent) &&
+    (!parent.layoutMode || parent.layoutMode === "NONE" || n.layoutPositioning === "ABSOLUTE")
+  ) {
     if (n.layoutPositioning === "ABSOLUTE") {
       layoutValues.position = "absolute";
     }
-    if (n.absoluteBoundingBox && parent.absoluteBoundingBox) {
-      layoutValues.locationRelativeToParent = {
-        x: n.absoluteBoundingBox.x - (parent?.absoluteBoundingBox?.x ?? n.absoluteBoundingBox.x),
-        y: n.absoluteBoundingBox.y - (parent?.absoluteBoundingBox?.y ?? n.absoluteBoundingBox.y),
-      };
+    if (isRectangle("absoluteBoundingBox", n) && isRectangle("absoluteBoundingBox", parent)) {
+      const box = n.absoluteBoundingBox;
+      const parentBox = parent.absoluteBoundingBox;
+      if (n.constraints) {
+        Object.assign(
+          dimensions,
+          buildConstraintValues(layoutValues, n.constraints, box, parentBox),
+        );
+      } else {
+        layoutValues.locationRelativeToParent = {
+          x: box.x - parentBox.x,
+          y: box.y - parentBox.y,
+        };
+      }
+    }
+    return withDimensions(layoutValues, dimensions);
+  }
+
+  if (isGridFrame(parent)) {
+    const child = n as GridChildProperties;
+    layoutValues.gridColumn = buildGridPlacement(child.gridColumnAnchorIndex, child.gridColumnSpan);
+    layoutValues.gridRow = buildGridPlacement(child.gridRowAnchorIndex, child.gridRowSpan);
+    const justifySelf = convertGridChildAlign(child.gridChildHorizontalAlign);
+    const alignSelf = convertGridChildAlign(child.gridChildVerticalAlign);
+    if (justifySelf) layoutValues.justifySelf = justifySelf;
+    if (alignSelf) layoutValues.alignSelf = alignSelf;
+
+    if (isRectangle("absoluteBoundingBox", n)) {
+      if (n.layoutSizingHorizontal === "FIXED") dimensions.width = n.absoluteBoundingBox.width;
+      if (n.layoutSizingVertical === "FIXED") dimensions.height = n.absoluteBoundingBox.height;
     }
-    return layoutValues;
+    return withDimensions(layoutValues, dimensions);
   }
 
   // Handle dimensions based on layout growth and alignment
   if (isRectangle("absoluteBoundingBox", n) && isRectangle("absoluteBoundingBox", parent)) {
-    const dimensions: { width?: number; height?: number; aspectRatio?: number } = {};
-
     // Only include dimensions that aren't meant to stretch
     if (mode === "row") {
       if (!n.layoutGrow && n.layoutSizingHorizontal == "FIXED")
@@ -241,11 +338,134 @@ function buildSimplifiedLayoutValues(
         dimensions.aspectRatio = n.absoluteBoundingBox?.width / n.absoluteBoundingBox?.height;
       }
     }
+  }
+
+  return withDimensions(layoutValues, dimensions);
+}
 
-    if (Object.keys(dimensions).length > 0) {
-      layoutValues.dimensions = dimensions;
+function withDimensions(
+  layoutValues: SimplifiedLayout,
+  dimensions: NonNullable<SimplifiedLayout["dimensions"]>,
+): SimplifiedLayout {
+  const defined = Object.entries(dimensions).filter(([, value]) => value !== undefined);
+  if (defined.length > 0) {
+    layoutValues.dimensions = Object.fromEntries(defined);
+  }
+  return layoutValues;
+}
+
+/**
+ * Turn constraints into CSS insets on the layout, so the node moves and stretches with its parent
+ * the way it does in Figma
+ * @returns The fixed dimensions that still apply
+ */
+function buildConstraintValues(
+  layoutValues: SimplifiedLayout,
+  constraints: LayoutConstraint,
+  box: Rectangle,
+  parentBox: Rectangle,
+): { width?: number; height?: number } {
+  const horizontal = buildAxisInsets(
+    HORIZONTAL_CONSTRAINTS[constraints.horizontal],
+    box.x - parentBox.x,
+    box.width,
+    parentBox.width,
+  );
+  const vertical = buildAxisInsets(
+    VERTICAL_CONSTRAINTS[constraints.vertical],
+    box.y - parentBox.y,
+    box.height,
+    parentBox.height,
+  );
+
+  const offsets = {
+    top: vertical.start,
+    right: horizontal.end,
+    bottom: vertical.end,
+    left: horizontal.start,
+  };
+  layoutValues.offsets = Object.fromEntries(
+    Object.entries(offsets).filter(([, value]) => value !== undefined),
+  );
+  return { width: horizontal.size, height: vertical.size };
+}
+
+type AxisConstraint = "start" | "end" | "center" | "stretch" | "scale";
+
+const HORIZONTAL_CONSTRAINTS: Record<LayoutConstraint["horizontal"], AxisConstraint> = {
+  LEFT: "start",
+  RIGHT: "end",
+  CENTER: "center",
+  LEFT_RIGHT: "stretch",
+  SCALE: "scale",
+};
+
+const VERTICAL_CONSTRAINTS: Record<LayoutConstraint["vertical"], AxisConstraint> = {
+  TOP: "start",
+  BOTTOM: "end",
+  CENTER: "center",
+  TOP_BOTTOM: "stretch",
+  SCALE: "scale",
+};
+
+function buildAxisInsets(
+  constraint: AxisConstraint,
+  offset: number,
+  size: number,
+  parentSize: number,
+): { start?: string; end?: string; size?: number } {
+  const endOffset = parentSize - offset - size;
+  switch (constraint) {
+    case "end":
+      return { end: px(endOffset), size };
+    case "center": {
+      const fromCenter = offset - parentSize / 2;
+      return {
+        start: `calc(50% ${fromCenter < 0 ? "-" : "+"} ${px(Math.abs(fromCenter))})`,
+        size,
+      };
     }
+    case "stretch":
+      return { start: px(offset), end: px(endOffset) };
+    case "scale":
+      return { start: percent(offset, parentSize), end: percent(endOffset, parentSize) };
+    case "start":
+    default:
+      return { start: px(offset), size };
   }
+}
 
-  return layoutValues;
+/**
+ * CSS gap shorthand, row gap first
+ */
+function buildGap(rowGap = 0, columnGap = 0): string | undefined {
+  if (!rowGap && !columnGap) return undefined;
+  return rowGap === columnGap ? px(rowGap) : `${px(rowGap)} ${px(columnGap)}`;
+}
+
+function buildGridPlacement(anchorIndex?: number, span = 1): string | undefined {
+  if (anchorIndex === undefined) return span > 1 ? `span ${span}` : undefined;
+  return span > 1 ? `${anchorIndex + 1} / span ${span}` : `${anchorIndex + 1}`;
+}
+
+function convertGridChildAlign(align?: GridChildProperties["gridChildHorizontalAlign"]) {
+  switch (align) {
+    case "MIN":
+      // Grid items stretch by default, so the start has to be explicit
+      return "flex-start";
+    case "CENTER":
+      return "center";
+    case "MAX":
+      return "flex-end";
+    default:
+      return undefined;
+  }
+}
+
+function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
+
+function percent(value: number, total: number): string {
+  return `${Math.round((value / (total || 1)) * 10000) / 100}%`;
 }
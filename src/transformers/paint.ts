@@ -0,0 +1,143 @@
+import type { GradientPaint, ImagePaint, RGBA, Vector } from "@figma/rest-api-spec";
+import type {
+  CSSGradient,
+  CSSHexColor,
+  CSSRGBAColor,
+  SimplifiedFill,
+} from "~/services/simplify-node-response.js";
+import { convertColor, formatRGBAColor } from "~/utils/common.js";
+
+export type PaintSize = { width: number; height: number };
+
+type ImageBackground = {
+  backgroundSize: string;
+  backgroundRepeat: "repeat" | "no-repeat";
+  backgroundPosition?: string;
+};
+
+/**
+ * Convert a gradient paint into a CSS gradient. Handle positions are in the node's normalized
+ * coordinate space, so the node's size is needed to get angles right on non-square nodes
+ * @param paint - The gradient paint
+ * @param size - Size of the node the paint belongs to. Defaults to a square
+ */
+export function buildCSSGradient(
+  paint: GradientPaint,
+  size: PaintSize = { width: 1, height: 1 },
+): CSSGradient {
+  const [start, end, widthHandle] = paint.gradientHandlePositions.map((p) => toPixels(p, size));
+  const stops = (position: (t: number) => string) =>
+    paint.gradientStops
+      .map(({ color, position: t }) => `${formatStopColor(color, paint.opacity)} ${position(t)}`)
+      .join(", ");
+
+  switch (paint.type) {
+    case "GRADIENT_LINEAR": {
+      const angle = angleOf(start, end);
+      // CSS gradient lines run through the center and are long enough to reach the corners, so
+      // project Figma's stop positions onto that line
+      const radians = (angle * Math.PI) / 180;
+      const direction = { x: Math.sin(radians), y: -Math.cos(radians) };
+      const length = Math.abs(size.width * direction.x) + Math.abs(size.height * direction.y) || 1;
+      const center = { x: size.width / 2, y: size.height / 2 };
+      const toPercent = (t: number) => {
+        const point = { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t };
+        const offset = (point.x - center.x) * direction.x + (point.y - center.y) * direction.y;
+        return `${round(((offset + length / 2) / length) * 100)}%`;
+      };
+      return `linear-gradient(${round(angle)}deg, ${stops(toPercent)})`;
+    }
+    case "GRADIENT_ANGULAR": {
+      const at = `${percentOf(start.x, size.width)} ${percentOf(start.y, size.height)}`;
+      return `conic-gradient(from ${round(angleOf(start, end))}deg at ${at}, ${stops(
+        (t) => `${round(t * 100)}%`,
+      )})`;
+    }
+    default: {
+      // Radial, and diamond which CSS has no equivalent for. The ellipse can't be rotated in CSS,
+      // so only the radii are kept
+      const rx = percentOf(distance(start, end), size.width);
+      const ry = percentOf(distance(start, widthHandle ?? end), size.height);
+      const at = `${percentOf(start.x, size.width)} ${percentOf(start.y, size.height)}`;
+      return `radial-gradient(ellipse ${rx} ${ry} at ${at}, ${stops((t) => `${round(t * 100)}%`)})`;
+    }
+  }
+}
+
+/**
+ * Map an image paint's scale mode onto CSS background properties
+ */
+export function buildImageBackground(paint: ImagePaint): ImageBackground {
+  switch (paint.scaleMode) {
+    case "FIT":
+      return {
+        backgroundSize: "contain",
+        backgroundRepeat: "no-repeat",
+        backgroundPosition: "center",
+      };
+    case "TILE":
+      return {
+        backgroundSize: paint.scalingFactor ? `${round(paint.scalingFactor * 100)}%` : "auto",
+        backgroundRepeat: "repeat",
+      };
+    case "STRETCH":
+      return { backgroundSize: "100% 100%", backgroundRepeat: "no-repeat" };
+    case "FILL":
+    default:
+      return {
+        backgroundSize: "cover",
+        backgroundRepeat: "no-repeat",
+        backgroundPosition: "center",
+      };
+  }
+}
+
+/**
+ * Combine a fill stack, topmost first, into the value of a CSS background shorthand. Image fills
+ * are left out since they have no URL until downloaded
+ * @returns The background value, or undefined if there is nothing to draw
+ */
+export function buildCSSBackground(fills: SimplifiedFill[]): string | undefined {
+  const layers = fills
+    .map((fill) => (typeof fill === "string" ? fill : fill.gradient))
+    .filter((layer): layer is NonNullable<typeof layer> => !!layer);
+  if (!layers.length) return undefined;
+
+  // Only the bottom layer can be a plain color, the rest have to be images
+  return layers
+    .map((layer, i) =>
+      i < layers.length - 1 && !layer.includes("gradient(")
+        ? `linear-gradient(${layer}, ${layer})`
+        : layer,
+    )
+    .join(", ");
+}
+
+function formatStopColor(color: RGBA, opacity = 1): CSSHexColor | CSSRGBAColor {
+  const { hex, opacity: alpha } = convertColor(color, opacity);
+  return alpha === 1 ? (hex as CSSHexColor) : formatRGBAColor(color, opacity);
+}
+
+function toPixels(point: Vector, size: PaintSize): Vector {
+  return { x: point.x * size.width, y: point.y * size.height };
+}
+
+/**
+ * CSS angle of the direction from one point to another: 0deg points up, 90deg to the right
+ */
+function angleOf(from: Vector, to: Vector): number {
+  const degrees = (Math.atan2(to.x - from.x, -(to.y - from.y)) * 180) / Math.PI;
+  return (degrees + 360) % 360;
+}
+
+function distance(a: Vector, b: Vector): number {
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+function percentOf(value: number, total: number): string {
+  return `${round((value / (total || 1)) * 100)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,153 @@
+import type { Node as FigmaDocumentNode, TypeStyle } from "@figma/rest-api-spec";
+import { isVisible, parsePaint } from "~/utils/common.js";
+import { hasValue } from "~/utils/identity.js";
+
+export type TextStyle = Partial<{
+  fontFamily: string;
+  fontWeight: number;
+  fontSize: number;
+  lineHeight: string;
+  letterSpacing: string;
+  textCase: string;
+  textAlignHorizontal: string;
+  textAlignVertical: string;
+  fontStyle: "italic";
+  textDecoration: "underline" | "line-through";
+  /**
+   * Space after each paragraph, e.g. 12px
+   */
+  paragraphSpacing: string;
+  /**
+   * First line indent of each paragraph, as CSS text-indent
+   */
+  textIndent: string;
+  whiteSpace: "nowrap";
+  textOverflow: "ellipsis";
+  /**
+   * Maximum number of lines before the text is cut off, as CSS -webkit-line-clamp
+   */
+  lineClamp: number;
+}>;
+
+/**
+ * A run of characters whose style differs from the rest of the text node. Only the properties
+ * that differ from the node's text style are given
+ */
+export type TextSegment = TextStyle & {
+  text: string;
+  color?: string;
+  /**
+   * URL of a link, or #<nodeId> for links to another node in the file
+   */
+  href?: string;
+};
+
+export type TextLine = {
+  listStyleType: "decimal" | "disc" | "none";
+  indent?: number;
+};
+
+const TEXT_DECORATION = {
+  UNDERLINE: "underline",
+  STRIKETHROUGH: "line-through",
+} as const;
+
+export function buildSimplifiedTextStyle(style: TypeStyle): TextStyle {
+  const truncated = style.textTruncation === "ENDING" || style.textAutoResize === "TRUNCATE";
+  return {
+    fontFamily: style.fontFamily,
+    fontWeight: style.fontWeight,
+    fontSize: style.fontSize,
+    lineHeight:
+      style.lineHeightPx && style.fontSize ? `${style.lineHeightPx / style.fontSize}em` : undefined,
+    letterSpacing:
+      style.letterSpacing && style.letterSpacing !== 0 && style.fontSize
+        ? `${(style.letterSpacing / style.fontSize) * 100}%`
+        : undefined,
+    textCase: style.textCase,
+    textAlignHorizontal: style.textAlignHorizontal,
+    textAlignVertical: style.textAlignVertical,
+    fontStyle: style.italic ? "italic" : undefined,
+    textDecoration:
+      style.textDecoration && style.textDecoration !== "NONE"
+        ? TEXT_DECORATION[style.textDecoration]
+        : undefined,
+    paragraphSpacing: style.paragraphSpacing ? `${style.paragraphSpacing}px` : undefined,
+    textIndent: style.paragraphIndent ? `${style.paragraphIndent}px` : undefined,
+    // Text that grows in width never wraps, and single-line truncation needs nowrap to cut off
+    whiteSpace:
+      style.textAutoResize === "WIDTH_AND_HEIGHT" || (truncated && (style.maxLines ?? 1) === 1)
+        ? "nowrap"
+        : undefined,
+    textOverflow: truncated ? "ellipsis" : undefined,
+    lineClamp: truncated && style.maxLines && style.maxLines > 1 ? style.maxLines : undefined,
+  };
+}
+
+/**
+ * Split a text node into runs of characters sharing a style override, so mixed bold, italic,
+ * colored or linked text keeps its formatting
+ * @returns The segments, or undefined if the whole text uses the node's style
+ */
+export function buildTextSegments(n: FigmaDocumentNode): TextSegment[] | undefined {
+  if (!hasValue("characters", n) || !hasValue("style", n)) return undefined;
+  const overrides = hasValue("characterStyleOverrides", n) ? n.characterStyleOverrides : [];
+  const table = (hasValue("styleOverrideTable", n) ? n.styleOverrideTable : {}) as Record<
+    string,
+    TypeStyle
+  >;
+  if (!overrides.some((id) => id !== 0 && table[id])) return undefined;
+
+  const baseStyle = buildSimplifiedTextStyle(n.style);
+  const segments: TextSegment[] = [];
+  const characters = n.characters as string;
+  let start = 0;
+  for (let i = 1; i <= characters.length; i++) {
+    // Characters past the end of the overrides array use the node's style
+    const id = overrides[start] ?? 0;
+    if (i < characters.length && (overrides[i] ?? 0) === id) continue;
+
+    segments.push({
+      text: characters.slice(start, i),
+      ...buildSegmentStyle(n.style, table[id], baseStyle),
+    });
+    start = i;
+  }
+  return segments;
+}
+
+function buildSegmentStyle(
+  style: TypeStyle,
+  override: TypeStyle | undefined,
+  baseStyle: TextStyle,
+): Omit<TextSegment, "text"> {
+  if (!override) return {};
+  const segmentStyle = buildSimplifiedTextStyle({ ...style, ...override });
+  const diff: Omit<TextSegment, "text"> = {};
+  for (const key of Object.keys(segmentStyle) as (keyof TextStyle)[]) {
+    if (segmentStyle[key] !== baseStyle[key]) {
+      (diff as Record<string, unknown>)[key] = segmentStyle[key];
+    }
+  }
+
+  const fill = override.fills?.filter(isVisible).map((paint) => parsePaint(paint))[0];
+  if (typeof fill === "string" && !fill.includes("gradient(")) diff.color = fill;
+  if (override.hyperlink?.type === "URL" && override.hyperlink.url) {
+    diff.href = override.hyperlink.url;
+  } else if (override.hyperlink?.type === "NODE" && override.hyperlink.nodeID) {
+    diff.href = `#${override.hyperlink.nodeID}`;
+  }
+  return diff;
+}
+
+/**
+ * List style and indentation per line, if the text contains a list
+ */
+export function buildTextLines(n: FigmaDocumentNode): TextLine[] | undefined {
+  if (!hasValue("lineTypes", n) || !n.lineTypes.some((type) => type !== "NONE")) return undefined;
+  const indentations = hasValue("lineIndentations", n) ? n.lineIndentations : [];
+  return n.lineTypes.map((type, i) => ({
+    listStyleType: type === "ORDERED" ? "decimal" : type === "UNORDERED" ? "disc" : "none",
+    indent: indentations[i] || undefined,
+  }));
+}
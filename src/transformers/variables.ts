@@ -0,0 +1,230 @@
+import type {
+  GetLocalVariablesResponse,
+  GetPublishedVariablesResponse,
+  Node as FigmaDocumentNode,
+  RGBA,
+  VariableAlias,
+} from "@figma/rest-api-spec";
+import { convertColor, formatRGBAColor } from "~/utils/common.js";
+import { hasValue } from "~/utils/identity.js";
+
+type VariableType = "BOOLEAN" | "FLOAT" | "STRING" | "COLOR";
+type RawVariableValue = boolean | number | string | RGBA | VariableAlias;
+
+/**
+ * Variables and collections of a file, merged from the local and published variables endpoints
+ */
+export type FigmaVariables = {
+  variables: Record<
+    string,
+    {
+      name: string;
+      collectionId: string;
+      resolvedType: VariableType;
+      /**
+       * Only known for local variables, the published endpoint returns names alone
+       */
+      valuesByMode?: Record<string, RawVariableValue>;
+      codeSyntax?: string;
+    }
+  >;
+  collections: Record<
+    string,
+    {
+      name: string;
+      modes: { modeId: string; name: string }[];
+      defaultModeId?: string;
+    }
+  >;
+};
+
+export type SimplifiedVariableValue = string | number | boolean;
+
+export type SimplifiedVariable = {
+  name: string;
+  collection?: string;
+  type: VariableType;
+  /**
+   * Value in the collection's default mode. Aliases are written as {other/variable/name}
+   */
+  value?: SimplifiedVariableValue;
+  /**
+   * Values by mode name, only present if the collection has more than one mode
+   */
+  valuesByMode?: Record<string, SimplifiedVariableValue>;
+  codeSyntax?: string;
+};
+
+/**
+ * Properties of a node whose variable bindings are carried into the simplified output
+ */
+const BOUND_PROPERTIES = [
+  "fills",
+  "strokes",
+  "effects",
+  "opacity",
+  "itemSpacing",
+  "counterAxisSpacing",
+  "paddingLeft",
+  "paddingRight",
+  "paddingTop",
+  "paddingBottom",
+  "topLeftRadius",
+  "topRightRadius",
+  "bottomLeftRadius",
+  "bottomRightRadius",
+  "minWidth",
+  "maxWidth",
+  "minHeight",
+  "maxHeight",
+  "fontFamily",
+  "fontSize",
+  "fontStyle",
+  "fontWeight",
+  "letterSpacing",
+  "lineHeight",
+  "paragraphSpacing",
+] as const;
+
+export function mergeVariables(
+  local?: GetLocalVariablesResponse,
+  published?: GetPublishedVariablesResponse,
+): FigmaVariables {
+  const merged: FigmaVariables = { variables: {}, collections: {} };
+
+  // Published variables only fill in what the local endpoint did not return
+  for (const collection of Object.values(published?.meta.variableCollections ?? {})) {
+    merged.collections[collection.id] = { name: collection.name, modes: [] };
+  }
+  for (const variable of Object.values(published?.meta.variables ?? {})) {
+    merged.variables[variable.id] = {
+      name: variable.name,
+      collectionId: variable.variableCollectionId,
+      resolvedType: variable.resolvedDataType,
+    };
+  }
+
+  for (const collection of Object.values(local?.meta.variableCollections ?? {})) {
+    merged.collections[collection.id] = {
+      name: collection.name,
+      modes: collection.modes,
+      defaultModeId: collection.defaultModeId,
+    };
+  }
+  for (const variable of Object.values(local?.meta.variables ?? {})) {
+    merged.variables[variable.id] = {
+      name: variable.name,
+      collectionId: variable.variableCollectionId,
+      resolvedType: variable.resolvedType,
+      valuesByMode: variable.valuesByMode,
+      codeSyntax: variable.codeSyntax?.WEB,
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Check whether any node in the tree is bound to a variable, so the variables only need to be
+ * fetched when they will be used
+ */
+export function hasBoundVariables(nodes: FigmaDocumentNode[]): boolean {
+  return nodes.some(
+    (n) =>
+      (hasValue("boundVariables", n) && Object.keys(n.boundVariables ?? {}).length > 0) ||
+      (hasValue("children", n) && hasBoundVariables(n.children)),
+  );
+}
+
+/**
+ * Collect the variable IDs a node's properties are bound to, by property name. Paints bound through
+ * their own boundVariables.color are reported under fills/strokes as well
+ */
+export function getBoundVariableIds(n: FigmaDocumentNode): Record<string, string | string[]> {
+  const bound: Record<string, string | string[]> = {};
+  const boundVariables = (hasValue("boundVariables", n) ? n.boundVariables : {}) as Record<
+    string,
+    VariableAlias | VariableAlias[] | undefined
+  >;
+
+  for (const property of BOUND_PROPERTIES) {
+    const aliases = boundVariables[property];
+    const ids = (Array.isArray(aliases) ? aliases : aliases ? [aliases] : []).map((a) => a.id);
+    if (ids.length) bound[property] = ids.length === 1 ? ids[0] : ids;
+  }
+
+  for (const property of ["fills", "strokes"] as const) {
+    if (bound[property] || !hasValue(property, n) || !Array.isArray(n[property])) continue;
+    const ids = (n[property] as { boundVariables?: { color?: VariableAlias } }[])
+      .map((paint) => paint.boundVariables?.color?.id)
+      .filter((id): id is string => !!id);
+    if (ids.length) bound[property] = ids.length === 1 ? ids[0] : ids;
+  }
+
+  return bound;
+}
+
+/**
+ * Get the active mode of each collection a node sets explicitly, by collection and mode name
+ */
+export function getExplicitModes(
+  n: FigmaDocumentNode,
+  { collections }: FigmaVariables,
+): Record<string, string> | undefined {
+  if (!hasValue("explicitVariableModes", n)) return undefined;
+  const modes: Record<string, string> = {};
+  for (const [collectionId, modeId] of Object.entries(
+    n.explicitVariableModes as Record<string, string>,
+  )) {
+    const collection = collections[collectionId];
+    const mode = collection?.modes.find((m) => m.modeId === modeId);
+    if (collection && mode) modes[collection.name] = mode.name;
+  }
+  return Object.keys(modes).length ? modes : undefined;
+}
+
+export function simplifyVariable(
+  id: string,
+  { variables, collections }: FigmaVariables,
+): SimplifiedVariable | undefined {
+  const variable = variables[id];
+  if (!variable) return undefined;
+  const collection = collections[variable.collectionId];
+
+  const simplified: SimplifiedVariable = {
+    name: variable.name,
+    collection: collection?.name,
+    type: variable.resolvedType,
+    codeSyntax: variable.codeSyntax,
+  };
+
+  if (variable.valuesByMode) {
+    const formatValue = (value: RawVariableValue): SimplifiedVariableValue =>
+      formatVariableValue(value, variables);
+    const defaultModeId = collection?.defaultModeId ?? Object.keys(variable.valuesByMode)[0];
+    if (defaultModeId in variable.valuesByMode) {
+      simplified.value = formatValue(variable.valuesByMode[defaultModeId]);
+    }
+    if (collection && collection.modes.length > 1) {
+      simplified.valuesByMode = Object.fromEntries(
+        collection.modes
+          .filter((mode) => mode.modeId in variable.valuesByMode!)
+          .map((mode) => [mode.name, formatValue(variable.valuesByMode![mode.modeId])]),
+      );
+    }
+  }
+
+  return simplified;
+}
+
+function formatVariableValue(
+  value: RawVariableValue,
+  variables: FigmaVariables["variables"],
+): SimplifiedVariableValue {
+  if (typeof value !== "object") return value;
+  if ("type" in value && value.type === "VARIABLE_ALIAS") {
+    return `{${variables[value.id]?.name ?? value.id}}`;
+  }
+  const color = value as RGBA;
+  return color.a === 1 ? convertColor(color).hex : formatRGBAColor(color);
+}
@@ -1,8 +1,10 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync, createWriteStream } from "node:fs";
-import { join } from "node:path";
+import fs from "node:fs";
+import path from "node:path";
+import { createHash } from "node:crypto";
 
 import type { Paint, RGBA } from "@figma/rest-api-spec";
 import { CSSHexColor, CSSRGBAColor, SimplifiedFill } from "~/services/simplify-node-response.js";
+import { buildCSSGradient, buildImageBackground, PaintSize } from "~/transformers/paint.js";
 
 export type StyleId = `${string}_${string}` & { __brand: "StyleId" };
 
@@ -13,25 +15,21 @@ export interface ColorValue {
 
 /**
  * Download Figma image and save it locally
- * @param fileName - The filename to save as
+ * @param fileName - The filename to save as, or a function naming the file after the Content-Type
+ * the image is served with
  * @param localPath - The local path to save to
  * @param imageUrl - Image URL (images[nodeId])
  * @returns A Promise that resolves to the full file path where the image was saved
  * @throws Error if download fails
  */
 export async function downloadFigmaImage(
-  fileName: string,
+  fileName: string | ((contentType: string | null) => string),
   localPath: string,
   imageUrl: string,
 ): Promise<string> {
   try {
-    // Ensure local path exists
-    if (!fs.existsSync(localPath)) {
-      fs.mkdirSync(localPath, { recursive: true });
-    }
-
-    // Build the complete file path
-    const fullPath = path.join(localPath, fileName);
+    // Refuse names that would escape localPath before downloading anything
+    if (typeof fileName === "string") resolveFileInDir(localPath, fileName);
 
     // Use fetch to download the image
     const response = await fetch(imageUrl, {
@@ -41,8 +39,19 @@ export async function downloadFigmaImage(
     if (!response.ok) {
       throw new Error(`Failed to download image: ${response.statusText}`);
     }
+
+    // Build the complete file path
+    const fullPath = resolveFileInDir(
+      localPath,
+      typeof fileName === "string" ? fileName : fileName(response.headers.get("content-type")),
+    );
+
+    // Ensure local path exists
+    if (!fs.existsSync(localPath)) {
+      fs.mkdirSync(localPath, { recursive: true });
+    }
     // Create write stream
-    const writer = createWriteStream(fullPath);
+    const writer = fs.createWriteStream(fullPath);
 
     // Get the response as a readable stream and pipe it to the file
     const reader = response.body?.getReader();
@@ -57,12 +66,12 @@ export async function downloadFigmaImage(
           while (true) {
             const { done, value } = await reader.read();
             if (done) {
-              writer.end();
+              // Only report the path once the file is fully on disk
+              writer.end(() => resolve(fullPath));
               break;
             }
             writer.write(value);
           }
-          resolve(fullPath);
         } catch (err) {
           writer.end();
           fs.unlink(fullPath, () => {});
@@ -84,6 +93,57 @@ export async function downloadFigmaImage(
   }
 }
 
+/**
+ * Resolve a user-supplied directory against the workspace root and make sure it stays inside it
+ * @param localPath - Absolute or workspace-relative directory
+ * @param workspaceRoot - The directory the path must not escape. Defaults to the current working directory
+ * @returns The resolved absolute path
+ * @throws Error if the resolved path is outside the workspace root
+ */
+export function resolveWorkspacePath(
+  localPath: string,
+  workspaceRoot: string = process.cwd(),
+): string {
+  const root = path.resolve(workspaceRoot);
+  const resolved = path.resolve(root, localPath);
+  const relative = path.relative(root, resolved);
+
+  if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new Error(`Path "${localPath}" resolves outside of the workspace (${root})`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Join a user-supplied file name onto a directory
+ * @param dir - The directory the file must end up in
+ * @param fileName - A bare file name, without any directory part
+ * @returns The absolute path of the file
+ * @throws Error if the name contains path separators or would land outside the directory
+ */
+export function resolveFileInDir(dir: string, fileName: string): string {
+  if (!fileName || fileName === "." || fileName === ".." || /[\\/]/.test(fileName)) {
+    throw new Error(`Invalid file name "${fileName}": expected a name without directories`);
+  }
+  return resolveWorkspacePath(fileName, dir);
+}
+
+/**
+ * Write generated files into a directory, creating it if needed
+ * @param dir - The directory to write to
+ * @param files - File contents by file name
+ * @returns The paths that were written
+ */
+export function writeFiles(dir: string, files: Record<string, string>): string[] {
+  fs.mkdirSync(dir, { recursive: true });
+  return Object.entries(files).map(([fileName, content]) => {
+    const filePath = resolveFileInDir(dir, fileName);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  });
+}
+
 /**
  * Remove keys with empty arrays or empty objects from an object.
  * @param input - The input object or value.
@@ -192,20 +252,51 @@ export function formatRGBAColor(color: RGBA, opacity = 1): CSSRGBAColor {
 }
 
 /**
- * Generate a 6-character random variable ID
- * @param prefix - ID prefix
- * @returns A 6-character random ID string with prefix
+ * Serialize a value to JSON with object keys sorted, so equal values always produce equal strings
+ * @param value - The value to serialize
+ * @returns The canonical JSON string
  */
-export function generateVarId(prefix: string = "var"): StyleId {
-  const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
-  let result = "";
-
-  for (let i = 0; i < 6; i++) {
-    const randomIndex = Math.floor(Math.random() * chars.length);
-    result += chars[randomIndex];
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
   }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? "null" : stableStringify(item))).join(",")}]`;
+  }
+  const entries = Object.keys(value)
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(
+      (key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`,
+    );
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Generate a variable ID derived from the value it names
+ * @param prefix - ID prefix
+ * @param value - The style value, hashed through its canonical serialization
+ * @param length - Number of hash characters to use. Defaults to 6
+ * @returns A stable ID string with prefix, e.g. fill_3FA2C1
+ */
+export function generateVarId(prefix: string, value: unknown, length: number = 6): StyleId {
+  const hash = createHash("sha256").update(stableStringify(value)).digest("hex");
+  return `${prefix}_${hash.slice(0, length).toUpperCase()}` as StyleId;
+}
 
-  return `${prefix}_${result}` as StyleId;
+/**
+ * Generate a human-readable variable ID from a named Figma style
+ * @param prefix - ID prefix
+ * @param name - The style name, e.g. "Primary/Blue"
+ * @returns An ID like fill_primary_blue, or undefined if the name has no usable characters
+ */
+export function generateNamedVarId(prefix: string, name: string): StyleId | undefined {
+  const slug = name
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "_")
+    .replace(/^_+|_+$/g, "");
+  return slug ? (`${prefix}_${slug}` as StyleId) : undefined;
 }
 
 /**
@@ -263,14 +354,21 @@ export function generateCSSShorthand(
 /**
  * Convert a Figma paint (solid, image, gradient) to a SimplifiedFill
  * @param raw - The Figma paint to convert
+ * @param options - size: size of the node the paint belongs to, for gradient angles.
+ *   raw: keep the raw gradient handles and stops next to the CSS gradient
  * @returns The converted SimplifiedFill
  */
-export function parsePaint(raw: Paint): SimplifiedFill {
+export function parsePaint(
+  raw: Paint,
+  options: { size?: PaintSize; raw?: boolean } = {},
+): SimplifiedFill {
   if (raw.type === "IMAGE") {
     return {
       type: "IMAGE",
       imageRef: raw.imageRef,
       scaleMode: raw.scaleMode,
+      ...buildImageBackground(raw),
+      opacity: raw.opacity !== undefined && raw.opacity < 1 ? raw.opacity : undefined,
     };
   } else if (raw.type === "SOLID") {
     // treat as SOLID
@@ -285,14 +383,18 @@ export function parsePaint(raw: Paint): SimplifiedFill {
       raw.type,
     )
   ) {
-    // treat as GRADIENT_LINEAR
+    const gradient = buildCSSGradient(raw, options.size);
+    if (!options.raw) return gradient;
     return {
       type: raw.type,
+      gradient,
       gradientHandlePositions: raw.gradientHandlePositions,
-      gradientStops: raw.gradientStops.map(({ position, color }: { position: number; color: RGBA }) => ({
-        position,
-        color: convertColor(color),
-      })),
+      gradientStops: raw.gradientStops.map(
+        ({ position, color }: { position: number; color: RGBA }) => ({
+          position,
+          color: convertColor(color),
+        }),
+      ),
     };
   } else {
     throw new Error(`Unknown paint type: ${raw.type}`);
@@ -0,0 +1,80 @@
+import { randomUUID } from "node:crypto";
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+export interface EventStoreLimits {
+  /**
+   * Events kept per stream. Defaults to 1000
+   */
+  maxEventsPerStream?: number;
+  /**
+   * Streams kept in total, least recently written dropped first. Defaults to 50
+   */
+  maxStreams?: number;
+}
+
+/**
+ * Keeps the most recent messages of the most recent streams in memory so Streamable HTTP clients
+ * can resume with a Last-Event-ID header after a dropped connection
+ */
+export class InMemoryEventStore implements EventStore {
+  private readonly maxEventsPerStream: number;
+  private readonly maxStreams: number;
+  private readonly streams = new Map<StreamId, { eventId: EventId; message: JSONRPCMessage }[]>();
+  private readonly eventStreams = new Map<EventId, StreamId>();
+
+  constructor({ maxEventsPerStream = 1000, maxStreams = 50 }: EventStoreLimits = {}) {
+    this.maxEventsPerStream = maxEventsPerStream;
+    this.maxStreams = maxStreams;
+  }
+
+  /**
+   * Number of streams currently held
+   */
+  get size(): number {
+    return this.streams.size;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = randomUUID();
+    const events = this.streams.get(streamId) ?? [];
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    // Drop the oldest events once the stream grows past its limit
+    while (events.length > this.maxEventsPerStream) {
+      const dropped = events.shift()!;
+      this.eventStreams.delete(dropped.eventId);
+    }
+
+    // Re-insert so the map stays ordered from least to most recently written
+    this.streams.delete(streamId);
+    this.streams.set(streamId, events);
+    for (const [oldestId, oldest] of this.streams) {
+      if (this.streams.size <= this.maxStreams) break;
+      oldest.forEach(({ eventId: id }) => this.eventStreams.delete(id));
+      this.streams.delete(oldestId);
+    }
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> },
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) return "";
+
+    const events = this.streams.get(streamId) ?? [];
+    const lastIndex = events.findIndex(({ eventId }) => eventId === lastEventId);
+    for (const { eventId, message } of events.slice(lastIndex + 1)) {
+      await send(eventId, message);
+    }
+
+    return streamId;
+  }
+}
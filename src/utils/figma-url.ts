@@ -0,0 +1,137 @@
+export type FigmaUrlType = "design" | "file" | "proto" | "board" | "slides";
+
+export type FigmaUrl = {
+  type: FigmaUrlType;
+  /**
+   * Key of the main file, even for branch URLs
+   */
+  fileKey: string;
+  /**
+   * Key of the branch, only set for branch URLs. The API takes it in place of the file key
+   */
+  branchKey?: string;
+  /**
+   * Node IDs in API format, e.g. 1:2 or I1:2;3:4 for a layer inside an instance
+   */
+  nodeIds: string[];
+};
+
+export type FigmaTarget = {
+  /**
+   * Key to request from the API, the branch key for branch URLs unless another branch was given
+   */
+  fileKey: string;
+  nodeIds: string[];
+};
+
+export class FigmaUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FigmaUrlError";
+  }
+}
+
+const URL_TYPES: FigmaUrlType[] = ["design", "file", "proto", "board", "slides"];
+const KEY_PATTERN = /^[a-zA-Z0-9]+$/;
+const NODE_ID_PATTERN = /^I?\d+:\d+(;\d+:\d+)*$/;
+
+/**
+ * Parse any Figma link to a file, prototype, FigJam board or Slides deck, including branch links
+ * and links to one or more nodes
+ * @throws FigmaUrlError if the link isn't a Figma file link or has a malformed node ID
+ */
+export function parseFigmaUrl(url: string): FigmaUrl {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    throw new FigmaUrlError(`Not a valid URL: ${url}`);
+  }
+  if (parsed.hostname !== "figma.com" && !parsed.hostname.endsWith(".figma.com")) {
+    throw new FigmaUrlError(`Not a Figma URL: ${url}`);
+  }
+
+  // e.g. /design/<fileKey>/<name> or /design/<fileKey>/branch/<branchKey>/<name>
+  const [type, fileKey, ...rest] = parsed.pathname.split("/").filter(Boolean);
+  if (!URL_TYPES.includes(type as FigmaUrlType)) {
+    throw new FigmaUrlError(
+      `Unsupported Figma URL ${url}. Expected a link to a ${URL_TYPES.join(", ")} file`,
+    );
+  }
+  if (!fileKey || !KEY_PATTERN.test(fileKey)) {
+    throw new FigmaUrlError(`Could not find a file key in ${url}`);
+  }
+  let branchKey: string | undefined;
+  if (rest[0] === "branch") {
+    branchKey = rest[1];
+    if (!branchKey || !KEY_PATTERN.test(branchKey)) {
+      throw new FigmaUrlError(`Could not find a branch key in ${url}`);
+    }
+  }
+
+  const nodeIds = parsed.searchParams
+    .getAll("node-id")
+    .flatMap((value) => value.split(","))
+    .filter(Boolean)
+    .map(normalizeNodeId);
+
+  return { type: type as FigmaUrlType, fileKey, branchKey, nodeIds: [...new Set(nodeIds)] };
+}
+
+/**
+ * Convert a node ID from a URL (1-2, or an encoded 1%3A2) into API format (1:2)
+ * @throws FigmaUrlError if the result isn't a valid node ID
+ */
+export function normalizeNodeId(nodeId: string): string {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(nodeId.trim());
+  } catch {
+    throw new FigmaUrlError(`Invalid node ID: ${nodeId}`);
+  }
+  const normalized = decoded.replace(/-/g, ":");
+  if (!NODE_ID_PATTERN.test(normalized)) {
+    throw new FigmaUrlError(`Invalid node ID: ${nodeId}. Expected a node ID like 1:2 or 1-2`);
+  }
+  return normalized;
+}
+
+/**
+ * Work out which file and nodes a tool call refers to. A URL wins over a separate file key, and
+ * its node IDs over a separate node ID. A URL passed as the file key is accepted too
+ * @param nodeId - One or more comma-separated node IDs, in API or URL format
+ * @param branch - A branch to read instead. Branches are looked up on the main file, so a branch
+ * URL then resolves to its main file's key
+ * @throws FigmaUrlError if there is no file key or something fails to parse
+ */
+export function resolveFigmaTarget({
+  url,
+  fileKey,
+  nodeId,
+  branch,
+}: {
+  url?: string;
+  fileKey?: string;
+  nodeId?: string;
+  branch?: string;
+}): FigmaTarget {
+  const nodeIds = (nodeId ?? "")
+    .split(",")
+    .filter((id) => id.trim())
+    .map(normalizeNodeId);
+
+  const link = url ?? (fileKey && /^https?:\/\//i.test(fileKey.trim()) ? fileKey : undefined);
+  if (link) {
+    const parsed = parseFigmaUrl(link);
+    return {
+      fileKey: (!branch && parsed.branchKey) || parsed.fileKey,
+      nodeIds: parsed.nodeIds.length ? parsed.nodeIds : nodeIds,
+    };
+  }
+
+  if (!fileKey) throw new FigmaUrlError("Either a Figma URL or a file key is required");
+  if (!KEY_PATTERN.test(fileKey.trim())) {
+    throw new FigmaUrlError(`Invalid file key: ${fileKey}`);
+  }
+  return { fileKey: fileKey.trim(), nodeIds };
+}
@@ -0,0 +1,81 @@
+export interface LRUCacheOptions<V> {
+  /**
+   * Upper bound for the summed size of all entries, measured with `sizeOf`
+   */
+  maxSize?: number;
+  sizeOf?: (value: V) => number;
+}
+
+/**
+ * Minimal least-recently-used cache built on Map insertion order
+ */
+export class LRUCache<K, V> {
+  private readonly maxEntries: number;
+  private readonly maxSize: number;
+  private readonly sizeOf: (value: V) => number;
+  private readonly entries = new Map<K, V>();
+  private totalSize = 0;
+
+  constructor(
+    maxEntries: number,
+    { maxSize = Infinity, sizeOf = () => 0 }: LRUCacheOptions<V> = {},
+  ) {
+    this.maxEntries = maxEntries;
+    this.maxSize = maxSize;
+    this.sizeOf = sizeOf;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Summed size of all entries as measured by `sizeOf`
+   */
+  get calculatedSize(): number {
+    return this.totalSize;
+  }
+
+  get(key: K): V | undefined {
+    if (!this.entries.has(key)) return undefined;
+
+    // Re-insert so the entry becomes the most recently used
+    const value = this.entries.get(key)!;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entries to stay within the limits. A value
+   * larger than `maxSize` on its own is not stored
+   */
+  set(key: K, value: V): void {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) return;
+
+    this.entries.set(key, value);
+    this.totalSize += size;
+
+    while (this.entries.size > this.maxEntries || this.totalSize > this.maxSize) {
+      const oldest = this.entries.keys().next().value as K;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: K): boolean {
+    if (!this.entries.has(key)) return false;
+    this.totalSize -= this.sizeOf(this.entries.get(key)!);
+    return this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.totalSize = 0;
+  }
+
+  keys(): IterableIterator<K> {
+    return this.entries.keys();
+  }
+}
@@ -0,0 +1,20 @@
+import type { IncomingHttpHeaders } from "http";
+import type { FigmaAuth } from "~/services/figma.js";
+
+/**
+ * Read the Figma credentials an HTTP client sent: an OAuth token as Authorization: Bearer, or a
+ * personal access token as X-Figma-Token
+ */
+export function getRequestAuth(headers: IncomingHttpHeaders): FigmaAuth | undefined {
+  const bearer = /^Bearer\s+(\S+)\s*$/i.exec(headers.authorization ?? "");
+  if (bearer) return { type: "oauth", token: bearer[1] };
+
+  const token = headers["x-figma-token"];
+  const personalToken = (Array.isArray(token) ? token[0] : token)?.trim();
+  if (personalToken) return { type: "personal", token: personalToken };
+  return undefined;
+}
+
+export function isSameAuth(a: FigmaAuth | undefined, b: FigmaAuth | undefined): boolean {
+  return a?.type === b?.type && a?.token === b?.token;
+}